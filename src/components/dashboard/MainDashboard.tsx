@@ -1,20 +1,46 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle } from
+'@/components/ui/alert-dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { jobService } from '@/services/jobService';
 import { configService } from '@/services/configService';
 import { authService } from '@/services/authService';
-import { ProcessingConfig, Job } from '@/types';
+import { fileProcessingService } from '@/services/fileProcessingService';
+import { bigqueryService } from '@/services/bigqueryService';
+import { toFileProcessingOptions, toTableLoadOptions } from '@/lib/processingOptions';
+import { validateTableLayout } from '@/lib/tableLayout';
+import { validateTableMetadata } from '@/lib/tableMetadata';
+import { STREAMING_MAX_FILE_BYTES } from '@/lib/streamingInsert';
+import { validateMergeOptions } from '@/lib/mergeStatement';
+import { BIGQUERY_LOCATIONS, DEFAULT_LOCATION } from '@/lib/locations';
+import { parseTableReference } from '@/lib/tableReference';
+import { ProcessingConfig, Job, GeometryPolicy, SchemaChangeAction, WriteDisposition, LoadMethod } from '@/types';
 import FileUploadZone from '@/components/upload/FileUploadZone';
 import GCSPathInput from '@/components/upload/GCSPathInput';
+import LayerTargetsInput from '@/components/upload/LayerTargetsInput';
 import SchemaDefinition from '@/components/schema/SchemaDefinition';
+import TableLayoutInput from '@/components/schema/TableLayoutInput';
+import TableMetadataInput from '@/components/schema/TableMetadataInput';
+import MergeOptionsInput from '@/components/schema/MergeOptionsInput';
 import JobStatus from '@/components/jobs/JobStatus';
+import FilePreviewDialog from '@/components/preview/FilePreviewDialog';
 import ProductionSetup from '@/components/configuration/ProductionSetup';
 import ConnectionTest from '@/components/diagnostics/ConnectionTest';
 import BigQueryJobChecker from '@/components/diagnostics/BigQueryJobChecker';
@@ -30,6 +56,7 @@ import {
   Key,
   Info,
   BookOpen,
+  ClipboardCheck,
 } from 'lucide-react';
 
 const MainDashboard: React.FC = () => {
@@ -50,11 +77,23 @@ const MainDashboard: React.FC = () => {
     gcsBucket: '',
     gcsPath: '',
     autoDetectSchema: true,
+    geometryPolicy: 'repair',
+    columnNameStyle: 'snake_case',
+    schemaChangeAction: 'abort',
+    writeDisposition: 'WRITE_APPEND',
   });
 
   // UI State
   const [isProcessing, setIsProcessing] = useState(false);
   const [showOAuth, setShowOAuth] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [truncateConfirm, setTruncateConfirm] = useState<{config: ProcessingConfig;tables: string[];} | null>(null);
+
+  const previewOptions = useMemo(() => toFileProcessingOptions(processingConfig), [processingConfig]);
+  const previewLayerTargets = useMemo(
+    () => processingConfig.layerTargets?.filter((target) => target.selected) || [],
+    [processingConfig.layerTargets]
+  );
 
   // Load configuration on mount
   useEffect(() => {
@@ -85,6 +124,42 @@ const MainDashboard: React.FC = () => {
     return () => clearInterval(interval);
   }, []);
 
+  const handleFileSelect = async (file: File | null) => {
+    setProcessingConfig((prev) => ({ ...prev, file, layerTargets: [] }));
+    if (!file) {
+      return;
+    }
+
+    try {
+      const layers = await fileProcessingService.listLayers(file);
+      if (layers.length > 1) {
+        // Each layer defaults to <dataset>.<layer_name> in the currently selected dataset and project
+        setProcessingConfig((prev) => {
+          if (prev.file !== file) {
+            return prev;
+          }
+          const datasetName = prev.targetTable.includes('.') ?
+          prev.targetTable.slice(0, prev.targetTable.lastIndexOf('.')) :
+          prev.targetTable || configService.getConfig().bigQueryDefaultDataset || '';
+          return {
+            ...prev,
+            layerTargets: layers.map((layerName) => ({
+              layerName,
+              targetTable: `${datasetName}.${layerName.replace(/[^A-Za-z0-9_]/g, '_')}`,
+              selected: true
+            }))
+          };
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Could Not Read Layers",
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: "destructive"
+      });
+    }
+  };
+
   const handleProcessFile = async () => {
     if (!user) {
       toast({
@@ -117,17 +192,75 @@ const MainDashboard: React.FC = () => {
       return;
     }
 
+    // Local files are previewed first, the job starts once the preview is confirmed. Dry runs write
+    // nothing, so they start straight away.
+    if (processingConfig.sourceType === 'local' && processingConfig.file && !processingConfig.dryRun) {
+      setShowPreview(true);
+      return;
+    }
+
+    await requestStart();
+  };
+
+  const handlePreviewConfirm = async (schemaChangeAction: SchemaChangeAction) => {
+    setShowPreview(false);
+    await requestStart({ ...processingConfig, schemaChangeAction });
+  };
+
+  // Lists the target tables that already have rows, tables that can't be read are left for the job to report
+  const findNonEmptyTables = async (config: ProcessingConfig): Promise<string[]> => {
+    const selectedLayers = config.sourceType === 'local' ? config.layerTargets?.filter((target) => target.selected) || [] : [];
+    const tableNames = selectedLayers.length > 0 ? selectedLayers.map((target) => target.targetTable) : [config.targetTable];
+
+    const tables = await Promise.all(tableNames.map(async (tableName) => {
+      const tableReference = parseTableReference(tableName, config.gcpProjectId);
+      if (!tableReference) {
+        return null;
+      }
+      try {
+        const table = await bigqueryService.getTable(tableReference);
+        const rows = Number(table?.numRows || 0);
+        return rows > 0 ? `${tableName} (${rows.toLocaleString()} rows)` : null;
+      } catch (error) {
+        console.warn('⚠️ Could not read target table:', tableName, error);
+        return null;
+      }
+    }));
+    return tables.filter((table): table is string => table !== null);
+  };
+
+  // Truncating loads ask for confirmation when they would delete existing rows
+  const requestStart = async (config: ProcessingConfig = processingConfig) => {
+    if (config.writeDisposition === 'WRITE_TRUNCATE' && !config.merge && !config.dryRun) {
+      const nonEmptyTables = await findNonEmptyTables(config);
+      if (nonEmptyTables.length > 0) {
+        setTruncateConfirm({ config, tables: nonEmptyTables });
+        return;
+      }
+    }
+    await startJob(config);
+  };
+
+  const handleTruncateConfirm = async () => {
+    const config = truncateConfirm?.config;
+    setTruncateConfirm(null);
+    if (config) {
+      await startJob(config);
+    }
+  };
+
+  const startJob = async (config: ProcessingConfig = processingConfig) => {
     setIsProcessing(true);
 
     try {
-      console.log('🚀 Starting job with configuration:', processingConfig);
+      console.log('🚀 Starting job with configuration:', config);
 
-      const job = await jobService.createJob(processingConfig, user.id);
+      const job = await jobService.createJob(config, user.id);
       setJobs((prevJobs) => [job, ...prevJobs]); // Add the new job to the list
 
       toast({
-        title: "Processing Started! 🚀",
-        description: `Job ${job.id} has been queued for processing.`
+        title: config.dryRun ? "Dry Run Started" : "Processing Started! 🚀",
+        description: config.dryRun ? `Job ${job.id} is checking the load without writing anything.` : `Job ${job.id} has been queued for processing.`
       });
 
       console.log('✅ Job created successfully:', job.id);
@@ -161,14 +294,26 @@ const MainDashboard: React.FC = () => {
 
     if (!processingConfig.targetTable?.trim()) {
       errors.push('Target table is required');
-    } else if (!processingConfig.targetTable.includes('.')) {
-      errors.push('Target table must include dataset (format: dataset.table)');
+    } else if (!parseTableReference(processingConfig.targetTable, processingConfig.gcpProjectId || '')) {
+      errors.push('Target table must include dataset (format: dataset.table or project.dataset.table)');
     }
 
     if (processingConfig.sourceType === 'local' && !processingConfig.file) {
       errors.push('Please select a file to upload');
     }
 
+    if (processingConfig.sourceType === 'local') {
+      const selectedLayers = processingConfig.layerTargets?.filter((target) => target.selected) || [];
+      if (processingConfig.layerTargets?.length > 0 && selectedLayers.length === 0) {
+        errors.push('Select at least one layer to load');
+      }
+      selectedLayers.forEach((target) => {
+        if (!parseTableReference(target.targetTable, processingConfig.gcpProjectId || '')) {
+          errors.push(`Target table for layer ${target.layerName} must be in format: dataset.table or project.dataset.table`);
+        }
+      });
+    }
+
     if (processingConfig.sourceType === 'gcs') {
       if (!processingConfig.gcsBucket?.trim()) {
         errors.push('GCS bucket is required for GCS source');
@@ -183,6 +328,22 @@ const MainDashboard: React.FC = () => {
       errors.push('Please define a custom schema or enable auto-detect schema');
     }
 
+    // Columns are checked against the processed schema when the job runs
+    errors.push(...validateTableLayout(toTableLoadOptions(processingConfig)));
+    errors.push(...validateTableMetadata(processingConfig.tableMetadata || {}));
+
+    if (processingConfig.merge) {
+      errors.push(...validateMergeOptions(toTableLoadOptions(processingConfig).merge!));
+    }
+
+    if (processingConfig.sourceType === 'local' && processingConfig.loadMethod === 'streaming') {
+      if (processingConfig.merge) {
+        errors.push('Merging loads the rows into a staging table first; choose a batch load');
+      } else if (processingConfig.writeDisposition === 'WRITE_TRUNCATE') {
+        errors.push('Streaming inserts can only append rows; choose a batch load to replace existing rows');
+      }
+    }
+
     return errors;
   };
 
@@ -349,6 +510,10 @@ const MainDashboard: React.FC = () => {
                       gcpProjectId: e.target.value
                     }))} data-id="art6fseda" data-path="src/components/dashboard/MainDashboard.tsx" />
 
+                  <p className="text-sm text-muted-foreground" data-id="s6azbf3k4" data-path="src/components/dashboard/MainDashboard.tsx">
+                    BigQuery jobs run in and are billed to this project.
+                  </p>
+
                 </div>
                 
                 <div className="space-y-2" data-id="vg1mfd1x4" data-path="src/components/dashboard/MainDashboard.tsx">
@@ -362,6 +527,184 @@ const MainDashboard: React.FC = () => {
                       targetTable: e.target.value
                     }))} data-id="tv9ef347b" data-path="src/components/dashboard/MainDashboard.tsx" />
 
+                  <p className="text-sm text-muted-foreground" data-id="2r48zdefh" data-path="src/components/dashboard/MainDashboard.tsx">
+                    Prefix a project (project.dataset.table) to load into a table in another project.
+                  </p>
+
+                </div>
+
+                <div className="space-y-2 md:col-span-2" data-id="zddttbnxc" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <Label htmlFor="location" data-id="q2887pnmo" data-path="src/components/dashboard/MainDashboard.tsx">Location</Label>
+                  <Select
+                    value={processingConfig.location || DEFAULT_LOCATION}
+                    onValueChange={(location) => setProcessingConfig((prev) => ({ ...prev, location }))}>
+                    <SelectTrigger id="location" data-id="3rieia71q" data-path="src/components/dashboard/MainDashboard.tsx">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent data-id="8ppw5oy99" data-path="src/components/dashboard/MainDashboard.tsx">
+                      {BIGQUERY_LOCATIONS.map(({ value, label }) =>
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground" data-id="g6mziuswb" data-path="src/components/dashboard/MainDashboard.tsx">
+                    Where new datasets are created. Existing datasets keep their location, and the staging bucket must be in or inside it.
+                  </p>
+                </div>
+
+                <div className="space-y-2 md:col-span-2" data-id="09eo2jecq" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <Label htmlFor="sourceCrs" data-id="mv8h6qyqb" data-path="src/components/dashboard/MainDashboard.tsx">Source CRS (Optional)</Label>
+                  <Input
+                    id="sourceCrs"
+                    placeholder="EPSG:26915, or a PROJ/WKT definition"
+                    value={processingConfig.sourceCrs || ''}
+                    onChange={(e) => setProcessingConfig((prev) => ({
+                      ...prev,
+                      sourceCrs: e.target.value
+                    }))} data-id="uexf7meil" data-path="src/components/dashboard/MainDashboard.tsx" />
+
+                  <p className="text-sm text-muted-foreground" data-id="rsha5vzj0" data-path="src/components/dashboard/MainDashboard.tsx">
+                    Used for shapefiles without a .prj file and GeoPackage tables with an undefined SRS. Data is reprojected to WGS84 (EPSG:4326) before loading.
+                  </p>
+                </div>
+
+                <div className="space-y-2 md:col-span-2" data-id="shg6ja93a" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <Label htmlFor="geometryPolicy" data-id="xr6ip6jdr" data-path="src/components/dashboard/MainDashboard.tsx">Invalid Geometries</Label>
+                  <Select
+                    value={processingConfig.geometryPolicy || 'repair'}
+                    onValueChange={(value) => setProcessingConfig((prev) => ({
+                      ...prev,
+                      geometryPolicy: value as GeometryPolicy
+                    }))}>
+                    <SelectTrigger id="geometryPolicy" data-id="i50t73kiy" data-path="src/components/dashboard/MainDashboard.tsx">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent data-id="b7dt5xfnz" data-path="src/components/dashboard/MainDashboard.tsx">
+                      <SelectItem value="repair">Repair (close rings, fix winding, resolve self-intersections)</SelectItem>
+                      <SelectItem value="drop">Drop invalid features</SelectItem>
+                      <SelectItem value="fail">Fail the job</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground" data-id="ibd0g84bj" data-path="src/components/dashboard/MainDashboard.tsx">
+                    Geometries are checked before loading; repaired and dropped feature numbers are listed in the job logs.
+                  </p>
+                </div>
+
+                <div className="space-y-2 md:col-span-2" data-id="ue72wzb61" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <Label htmlFor="writeDisposition" data-id="ysxq4g52o" data-path="src/components/dashboard/MainDashboard.tsx">Write Mode</Label>
+                  <Select
+                    value={processingConfig.merge ? 'MERGE' : processingConfig.writeDisposition || 'WRITE_APPEND'}
+                    onValueChange={(value) => setProcessingConfig((prev) => value === 'MERGE' ?
+                    { ...prev, merge: prev.merge || { keyColumns: [], mode: 'upsert' } } :
+                    { ...prev, merge: undefined, writeDisposition: value as WriteDisposition })}>
+                    <SelectTrigger id="writeDisposition" data-id="uj5ic5ha3" data-path="src/components/dashboard/MainDashboard.tsx">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent data-id="reyq3ayzn" data-path="src/components/dashboard/MainDashboard.tsx">
+                      <SelectItem value="WRITE_APPEND">Append to existing rows</SelectItem>
+                      <SelectItem value="WRITE_TRUNCATE">Replace existing rows (truncate)</SelectItem>
+                      <SelectItem value="WRITE_EMPTY">Only load into an empty table</SelectItem>
+                      <SelectItem value="MERGE">Merge on key columns</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {processingConfig.merge &&
+                <div className="md:col-span-2" data-id="nreiqboff" data-path="src/components/dashboard/MainDashboard.tsx">
+                    <MergeOptionsInput
+                    value={processingConfig.merge}
+                    onChange={(merge) => setProcessingConfig((prev) => ({ ...prev, merge }))}
+                    disabled={isProcessing} />
+                  </div>
+                }
+
+                {processingConfig.sourceType === 'local' &&
+                <div className="space-y-2 md:col-span-2" data-id="lcs0bxp2h" data-path="src/components/dashboard/MainDashboard.tsx">
+                    <Label htmlFor="loadMethod" data-id="bnbqcmf26" data-path="src/components/dashboard/MainDashboard.tsx">Load Method</Label>
+                    <Select
+                    value={processingConfig.loadMethod || 'auto'}
+                    onValueChange={(value) => setProcessingConfig((prev) => ({
+                      ...prev,
+                      loadMethod: value as LoadMethod
+                    }))}>
+                      <SelectTrigger id="loadMethod" data-id="6qv9ocdwe" data-path="src/components/dashboard/MainDashboard.tsx">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent data-id="r0kg9rprc" data-path="src/components/dashboard/MainDashboard.tsx">
+                        <SelectItem value="auto">Automatic (stream files up to {STREAMING_MAX_FILE_BYTES / 1024 / 1024} MB)</SelectItem>
+                        <SelectItem value="batch">Batch load staged in Cloud Storage</SelectItem>
+                        <SelectItem value="streaming">Stream rows directly into the table</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <p className="text-sm text-muted-foreground" data-id="hvbu07p71" data-path="src/components/dashboard/MainDashboard.tsx">
+                      Streaming needs no writable bucket but can only append to an existing table whose schema already fits, and rows stay in BigQuery's streaming buffer for a while after the load. Auto falls back to a batch load when the table has to be created or changed.
+                    </p>
+                  </div>
+                }
+
+                <div className="space-y-2" data-id="kv68mjoj7" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <Label htmlFor="maxBadRecords" data-id="gwy4v02vc" data-path="src/components/dashboard/MainDashboard.tsx">Max Bad Records</Label>
+                  <Input
+                    id="maxBadRecords"
+                    type="number"
+                    min={0}
+                    placeholder="0"
+                    value={processingConfig.maxBadRecords ?? ''}
+                    onChange={(e) => setProcessingConfig((prev) => ({
+                      ...prev,
+                      maxBadRecords: Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : undefined
+                    }))} data-id="7dm6jf7fb" data-path="src/components/dashboard/MainDashboard.tsx" />
+
+                  <p className="text-sm text-muted-foreground" data-id="luwxhckjr" data-path="src/components/dashboard/MainDashboard.tsx">
+                    Rows BigQuery may skip before failing the load. Skipped rows are listed with their source feature in the job details.
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between space-x-4" data-id="gri0jfgbl" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <div className="space-y-1" data-id="s4htcqo1r" data-path="src/components/dashboard/MainDashboard.tsx">
+                    <Label htmlFor="ignoreUnknownValues" data-id="7gtjv1mxz" data-path="src/components/dashboard/MainDashboard.tsx">Ignore Unknown Values</Label>
+                    <p className="text-sm text-muted-foreground" data-id="3fizgeb5v" data-path="src/components/dashboard/MainDashboard.tsx">
+                      Drop values for columns the table doesn't have instead of rejecting the row.
+                    </p>
+                  </div>
+                  <Switch
+                    id="ignoreUnknownValues"
+                    checked={!!processingConfig.ignoreUnknownValues}
+                    onCheckedChange={(checked) => setProcessingConfig((prev) => ({ ...prev, ignoreUnknownValues: checked }))} data-id="2mq38yzfz" data-path="src/components/dashboard/MainDashboard.tsx" />
+                </div>
+
+                <div className="md:col-span-2" data-id="xisskujux" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <TableLayoutInput
+                    value={{ partitioning: processingConfig.partitioning, clusteringFields: processingConfig.clusteringFields }}
+                    onChange={(layout) => setProcessingConfig((prev) => ({ ...prev, ...layout }))} />
+                </div>
+
+                <div className="md:col-span-2" data-id="lonhc8oj7" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <TableMetadataInput
+                    value={processingConfig.tableMetadata || {}}
+                    onChange={(tableMetadata) => setProcessingConfig((prev) => ({ ...prev, tableMetadata }))} />
+                </div>
+
+                <div className="space-y-2 md:col-span-2" data-id="inf4fo2xw" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <Label htmlFor="schemaChangeAction" data-id="4exah9qca" data-path="src/components/dashboard/MainDashboard.tsx">Existing Table Schema</Label>
+                  <Select
+                    value={processingConfig.schemaChangeAction || 'abort'}
+                    onValueChange={(value) => setProcessingConfig((prev) => ({
+                      ...prev,
+                      schemaChangeAction: value as SchemaChangeAction
+                    }))}>
+                    <SelectTrigger id="schemaChangeAction" data-id="xtxs4a4mi" data-path="src/components/dashboard/MainDashboard.tsx">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent data-id="ympff8j0c" data-path="src/components/dashboard/MainDashboard.tsx">
+                      <SelectItem value="abort">Abort the job if the schema differs</SelectItem>
+                      <SelectItem value="update">Append and add new or relaxed columns</SelectItem>
+                      <SelectItem value="replace">Replace the table</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground" data-id="bmkxdefkd" data-path="src/components/dashboard/MainDashboard.tsx">
+                    Applies when the target table already exists with a different schema. The preview of a local file shows the differences before loading.
+                  </p>
                 </div>
               </div>
 
@@ -397,12 +740,21 @@ const MainDashboard: React.FC = () => {
             
             <TabsContent value="local" data-id="87ogyucb3" data-path="src/components/dashboard/MainDashboard.tsx">
               <FileUploadZone
-                onFileSelect={(file) => setProcessingConfig((prev) => ({
-                  ...prev,
-                  file
-                }))}
+                onFileSelect={handleFileSelect}
                 selectedFile={processingConfig.file} data-id="xpiysjtq7" data-path="src/components/dashboard/MainDashboard.tsx" />
 
+              {processingConfig.layerTargets && processingConfig.layerTargets.length > 1 &&
+              <div className="mt-4" data-id="eksyjf425" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <LayerTargetsInput
+                  layerTargets={processingConfig.layerTargets}
+                  onLayerTargetsChange={(layerTargets) => setProcessingConfig((prev) => ({
+                    ...prev,
+                    layerTargets
+                  }))}
+                  disabled={isProcessing} data-id="l8ixrr80b" data-path="src/components/dashboard/MainDashboard.tsx" />
+                </div>
+              }
+
             </TabsContent>
             
             <TabsContent value="gcs" data-id="gkwh17u8a" data-path="src/components/dashboard/MainDashboard.tsx">
@@ -435,6 +787,21 @@ const MainDashboard: React.FC = () => {
               ...prev,
               integerColumns: columns.split('|').filter((col) => col.trim())
             }))}
+            typeOverrides={processingConfig.typeOverrides || []}
+            onTypeOverridesChange={(typeOverrides) => setProcessingConfig((prev) => ({
+              ...prev,
+              typeOverrides
+            }))}
+            columnNameStyle={processingConfig.columnNameStyle || 'snake_case'}
+            onColumnNameStyleChange={(columnNameStyle) => setProcessingConfig((prev) => ({
+              ...prev,
+              columnNameStyle
+            }))}
+            schemaSampleSize={processingConfig.schemaSampleSize}
+            onSchemaSampleSizeChange={(schemaSampleSize) => setProcessingConfig((prev) => ({
+              ...prev,
+              schemaSampleSize
+            }))}
             disabled={isProcessing}
           />
 
@@ -442,6 +809,20 @@ const MainDashboard: React.FC = () => {
           {/* Process Button */}
           <Card data-id="poscom590" data-path="src/components/dashboard/MainDashboard.tsx">
             <CardContent className="pt-6" data-id="flxwdthuf" data-path="src/components/dashboard/MainDashboard.tsx">
+              <div className="flex items-center justify-between space-x-4 mb-4" data-id="l324x08kf" data-path="src/components/dashboard/MainDashboard.tsx">
+                <div className="space-y-1" data-id="3pn0nj42g" data-path="src/components/dashboard/MainDashboard.tsx">
+                  <Label htmlFor="dryRun" data-id="k584c2dwn" data-path="src/components/dashboard/MainDashboard.tsx">Dry Run</Label>
+                  <p className="text-sm text-muted-foreground" data-id="h8fqjb8t3" data-path="src/components/dashboard/MainDashboard.tsx">
+                    Parse the file and check the schema, permissions and target tables without uploading or loading anything.
+                  </p>
+                </div>
+                <Switch
+                  id="dryRun"
+                  checked={!!processingConfig.dryRun}
+                  onCheckedChange={(checked) => setProcessingConfig((prev) => ({ ...prev, dryRun: checked }))}
+                  disabled={isProcessing} data-id="pt63p6c7p" data-path="src/components/dashboard/MainDashboard.tsx" />
+              </div>
+
               <Button
                 onClick={handleProcessFile}
                 disabled={isProcessing || !authService.isAuthenticated()}
@@ -454,6 +835,12 @@ const MainDashboard: React.FC = () => {
                     Processing...
                   </> :
 
+                processingConfig.dryRun ?
+                <>
+                    <ClipboardCheck className="h-4 w-4 mr-2" data-id="pssi1ysk2" data-path="src/components/dashboard/MainDashboard.tsx" />
+                    Validate Load
+                  </> :
+
                 <>
                     <Upload className="h-4 w-4 mr-2" data-id="ln3g58noa" data-path="src/components/dashboard/MainDashboard.tsx" />
                     Start Processing
@@ -475,6 +862,38 @@ const MainDashboard: React.FC = () => {
               }
             </CardContent>
           </Card>
+
+          <FilePreviewDialog
+            open={showPreview}
+            file={processingConfig.file || null}
+            options={previewOptions}
+            layerTargets={previewLayerTargets}
+            targetTable={processingConfig.targetTable}
+            projectId={processingConfig.gcpProjectId}
+            customSchema={processingConfig.customSchema}
+            schemaChangeAction={processingConfig.schemaChangeAction || 'abort'}
+            onConfirm={handlePreviewConfirm}
+            onCancel={() => setShowPreview(false)} />
+
+          <AlertDialog open={!!truncateConfirm} onOpenChange={(open) => !open && setTruncateConfirm(null)}>
+            <AlertDialogContent data-id="cq6b4dl6i" data-path="src/components/dashboard/MainDashboard.tsx">
+              <AlertDialogHeader data-id="ndbdf53p8" data-path="src/components/dashboard/MainDashboard.tsx">
+                <AlertDialogTitle data-id="6n6r39uhq" data-path="src/components/dashboard/MainDashboard.tsx">Replace existing rows?</AlertDialogTitle>
+                <AlertDialogDescription data-id="xcfpe2id0" data-path="src/components/dashboard/MainDashboard.tsx">
+                  The write mode is truncate, so the rows already in these tables will be deleted:
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <ul className="list-disc pl-5 text-sm font-mono" data-id="4hkj1xav2" data-path="src/components/dashboard/MainDashboard.tsx">
+                {truncateConfirm?.tables.map((table) => <li key={table}>{table}</li>)}
+              </ul>
+              <AlertDialogFooter data-id="foh2evgng" data-path="src/components/dashboard/MainDashboard.tsx">
+                <AlertDialogCancel data-id="wyoaafi0k" data-path="src/components/dashboard/MainDashboard.tsx">Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleTruncateConfirm} data-id="vcwatk6rq" data-path="src/components/dashboard/MainDashboard.tsx">
+                  Truncate and Load
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
         </TabsContent>
 
         {/* Job Status Tab */}
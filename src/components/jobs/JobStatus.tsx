@@ -5,9 +5,14 @@ import { Progress } from '@/components/ui/progress';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { Job } from '@/types';
+import { Job, ValidationCheck } from '@/types';
+import { formatTableLayout, hasTableLayout } from '@/lib/tableLayout';
+import { describeMergeOptions } from '@/lib/mergeStatement';
+import { sameLocation } from '@/lib/locations';
+import LoadErrorsPanel from '@/components/jobs/LoadErrorsPanel';
 import { jobService } from '@/services/jobService';
 import { configService } from '@/services/configService';
+import { useToast } from '@/hooks/use-toast';
 import {
   Clock,
   CheckCircle,
@@ -22,9 +27,14 @@ import {
   ExternalLink,
   Zap,
   Copy,
+  ClipboardCheck,
+  MinusCircle,
+  Ban,
 } from 'lucide-react';
 import { format, formatDistanceToNow } from 'date-fns';
 
+const isFinished = (job: Job) => ['completed', 'validated', 'failed', 'cancelled'].includes(job.status);
+
 interface JobStatusProps {
   jobs: Job[];
   onJobsUpdate: (jobs: Job[]) => void;
@@ -33,6 +43,8 @@ interface JobStatusProps {
 const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
   const [expandedJob, setExpandedJob] = useState<string | null>(null);
   const [isRealProcessingEnabled, setIsRealProcessingEnabled] = useState(false);
+  const [cancellingJob, setCancellingJob] = useState<string | null>(null);
+  const { toast } = useToast();
 
   useEffect(() => {
     // Check if real processing is enabled
@@ -55,7 +67,7 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
     // Ensure jobs is an array before iterating
     if (Array.isArray(jobs)) {
       jobs.forEach((job) => {
-        if (job.status !== 'completed' && job.status !== 'failed') {
+        if (!isFinished(job)) {
           const unsubscribe = jobService.subscribeToJobUpdates(job.id, (updatedJob) => {
             onJobsUpdate(jobs.map((j) => (j.id === updatedJob.id ? updatedJob : j)));
           });
@@ -69,6 +81,25 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
     };
   }, [jobs, onJobsUpdate]);
 
+  const handleCancel = async (jobId: string) => {
+    setCancellingJob(jobId);
+    try {
+      await jobService.cancelJob(jobId);
+      const cancelledJob = await jobService.getJob(jobId);
+      if (cancelledJob) {
+        onJobsUpdate(jobs.map((j) => (j.id === jobId ? cancelledJob : j)));
+      }
+    } catch (error) {
+      toast({
+        title: 'Could not cancel job',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive'
+      });
+    } finally {
+      setCancellingJob(null);
+    }
+  };
+
   const getStatusIcon = (status: Job['status']) => {
     switch (status) {
       case 'queued':
@@ -79,13 +110,30 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
         return <Loader2 className="h-4 w-4 animate-spin" />;
       case 'completed':
         return <CheckCircle className="h-4 w-4" />;
+      case 'validated':
+        return <ClipboardCheck className="h-4 w-4" />;
       case 'failed':
         return <XCircle className="h-4 w-4" />;
+      case 'cancelled':
+        return <Ban className="h-4 w-4" />;
       default:
         return <AlertCircle className="h-4 w-4" />;
     }
   };
 
+  const getCheckIcon = (status: ValidationCheck['status']) => {
+    switch (status) {
+      case 'passed':
+        return <CheckCircle className="h-4 w-4 text-green-600" />;
+      case 'warning':
+        return <AlertTriangle className="h-4 w-4 text-amber-600" />;
+      case 'failed':
+        return <XCircle className="h-4 w-4 text-red-600" />;
+      default:
+        return <MinusCircle className="h-4 w-4 text-gray-400" />;
+    }
+  };
+
   const getStatusColor = (status: Job['status']) => {
     switch (status) {
       case 'queued':
@@ -96,8 +144,12 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
         return 'bg-blue-100 text-blue-800';
       case 'completed':
         return 'bg-green-100 text-green-800';
+      case 'validated':
+        return 'bg-purple-100 text-purple-800';
       case 'failed':
         return 'bg-red-100 text-red-800';
+      case 'cancelled':
+        return 'bg-orange-100 text-orange-800';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -119,9 +171,17 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
         return 'Job completed successfully (Demo mode - no actual data loaded)';
       }
     }
+    if (job.status === 'validated') {
+      return job.validationReport?.passed
+        ? 'Dry run passed - the load can go ahead. Nothing was written.'
+        : 'Dry run found problems - see the checks below. Nothing was written.';
+    }
     if (job.status === 'failed') {
       return job.errorMessage || 'Job failed with unknown error';
     }
+    if (job.status === 'cancelled') {
+      return 'Job cancelled. Rows already written to BigQuery stay in the table.';
+    }
     return `Processing: ${job.status}...`;
   };
 
@@ -197,6 +257,17 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
                 </div>
                 <div className="flex items-center space-x-2">
                   <Badge className={getStatusColor(job.status)}>{job.status?.toUpperCase()}</Badge>
+                  {!isFinished(job) && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCancel(job.id)}
+                      disabled={cancellingJob === job.id}
+                      title="Cancel job"
+                    >
+                      {cancellingJob === job.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <Ban className="h-4 w-4" />}
+                    </Button>
+                  )}
                   <Button variant="ghost" size="sm" onClick={() => setExpandedJob(expandedJob === job.id ? null : job.id)}>
                     <Eye className="h-4 w-4" />
                   </Button>
@@ -207,10 +278,12 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
               <div className="mb-3">
                 <p
                   className={`text-sm ${
-                    job.status === 'completed'
+                    job.status === 'completed' || (job.status === 'validated' && job.validationReport?.passed)
                       ? 'text-green-600'
-                      : job.status === 'failed'
+                      : job.status === 'failed' || job.status === 'validated'
                       ? 'text-red-600'
+                      : job.status === 'cancelled'
+                      ? 'text-orange-600'
                       : 'text-blue-600'
                   }`}
                 >
@@ -218,6 +291,19 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
                 </p>
               </div>
 
+              {/* Checks run by a dry run, in the order they ran */}
+              {job.validationReport && (
+                <div className="mb-3 border rounded divide-y text-sm">
+                  {job.validationReport.checks.map((check, index) => (
+                    <div key={index} className="p-2 flex items-start space-x-2">
+                      {getCheckIcon(check.status)}
+                      <span className="font-medium whitespace-nowrap">{check.name}</span>
+                      <span className="text-gray-600 break-words">{check.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {(job.status === 'converting' || job.status === 'reading' || job.status === 'loading') && (
                 <div className="mb-3">
                   <div className="flex justify-between items-center mb-1">
@@ -251,6 +337,9 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
                         <p><strong>ID:</strong> {job.id}</p>
                         <p><strong>Source:</strong> {job.sourceType?.toUpperCase()}</p>
                         <p><strong>Project:</strong> {job.gcpProjectId}</p>
+                        {job.dataProjectId && job.dataProjectId !== job.gcpProjectId && (
+                          <p><strong>Data Project:</strong> {job.dataProjectId}</p>
+                        )}
                         <p><strong>Mode:</strong> {isRealProcessingEnabled ? 'Production' : 'Demo'}</p>
                         {job.bigQueryJobId && (
                           <div className="flex items-center gap-2">
@@ -266,7 +355,26 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
                             </Button>
                           </div>
                         )}
-                        {job.integerColumns && <p><strong>Integer Columns:</strong> {job.integerColumns}</p>}
+                        {job.integerColumns?.length > 0 && <p><strong>Integer Columns:</strong> {job.integerColumns.join(', ')}</p>}
+                        {job.sourceCrs && <p><strong>Source CRS:</strong> {job.sourceCrs}</p>}
+                        {(job.merge || job.writeDisposition) && (
+                          <p><strong>Write Mode:</strong> {job.merge ? describeMergeOptions(job.merge) : job.writeDisposition}</p>
+                        )}
+                        {job.mergeResult && (
+                          <p>
+                            <strong>Merge Result:</strong> {job.mergeResult.insertedRows.toLocaleString()} inserted,{' '}
+                            {job.mergeResult.updatedRows.toLocaleString()} updated, {job.mergeResult.deletedRows.toLocaleString()} deleted
+                          </p>
+                        )}
+                        {job.location && <p><strong>Location:</strong> {job.location}</p>}
+                        {job.datasetLocations && Object.values(job.datasetLocations).some((location) => !job.location || !sameLocation(location, job.location)) && (
+                          <p>
+                            <strong>Dataset Locations:</strong>{' '}
+                            {Object.entries(job.datasetLocations).map(([dataset, location]) => `${dataset} (${location})`).join(', ')}
+                          </p>
+                        )}
+                        {job.loadMethod && <p><strong>Load Method:</strong> {job.loadMethod === 'streaming' ? 'Streaming inserts' : 'Batch load'}</p>}
+                        {hasTableLayout(job) && <p><strong>Table Layout:</strong> {formatTableLayout(job)}</p>}
                       </div>
                     </div>
                     {job.errorMessage && (
@@ -285,6 +393,91 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
                     )}
                   </div>
 
+                  {/* Child loads for multi-layer archives */}
+                  {job.layers && job.layers.length > 0 && (
+                    <div className="mb-4">
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">Layers</h4>
+                      <div className="space-y-1">
+                        {job.layers.map((step) => (
+                          <div key={step.layerName} className="flex items-center justify-between p-2 bg-gray-50 rounded text-sm">
+                            <div>
+                              <span className="font-mono">{step.layerName}</span>
+                              <span className="text-gray-500"> → {step.targetTable}</span>
+                              {step.recordCount !== undefined && (
+                                <span className="text-gray-500"> ({step.recordCount} records)</span>
+                              )}
+                              {step.error && <p className="text-xs text-red-600">{step.error}</p>}
+                            </div>
+                            <Badge
+                              className={
+                                step.status === 'completed'
+                                  ? 'bg-green-100 text-green-800'
+                                  : step.status === 'failed'
+                                  ? 'bg-red-100 text-red-800'
+                                  : step.status === 'pending' || step.status === 'cancelled'
+                                  ? 'bg-gray-100 text-gray-800'
+                                  : 'bg-blue-100 text-blue-800'
+                              }
+                            >
+                              {step.status.toUpperCase()}
+                            </Badge>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Source properties renamed to valid BigQuery column names */}
+                  {job.columnMapping && job.columnMapping.length > 0 && (
+                    <div className="mb-4">
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">Renamed Columns</h4>
+                      <div className="grid grid-cols-2 gap-x-4 gap-y-1 p-2 bg-gray-50 rounded text-sm">
+                        {job.columnMapping.map((mapping) => (
+                          <React.Fragment key={mapping.final}>
+                            <span className="font-mono text-gray-600 break-all">{mapping.original || '(empty)'}</span>
+                            <span className="font-mono break-all">→ {mapping.final}</span>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Rows BigQuery rejected or skipped as bad records */}
+                  {job.loadErrors && job.loadErrors.length > 0 && (
+                    <div className="mb-4">
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">Load Errors ({job.loadErrors.length})</h4>
+                      <LoadErrorsPanel errors={job.loadErrors} />
+                    </div>
+                  )}
+
+                  {/* Inferred column types with how well the values fit them */}
+                  {job.schemaInference && job.schemaInference.length > 0 && (
+                    <div className="mb-4">
+                      <h4 className="text-sm font-medium text-gray-700 mb-2">
+                        Column Types
+                        {job.schemaInference.some((summary) => summary.sampled) && (
+                          <span className="font-normal text-gray-500"> (sampled)</span>
+                        )}
+                      </h4>
+                      <div className="grid grid-cols-4 gap-x-4 gap-y-1 p-2 bg-gray-50 rounded text-sm">
+                        {job.schemaInference.map((summary) => (
+                          <React.Fragment key={summary.column}>
+                            <span className="font-mono break-all">{summary.column}</span>
+                            <span className={summary.conflict ? 'text-amber-700' : ''}>{summary.type}</span>
+                            <span className={summary.confidence < 1 ? 'text-amber-700' : 'text-gray-600'}>
+                              {summary.nonNullValues > 0 ? `${Math.round(summary.confidence * 100)}% fit` : 'no values'}
+                            </span>
+                            <span className="text-gray-500">
+                              {summary.conflict
+                                ? Object.entries(summary.typeCounts).map(([type, count]) => `${count} ${type}`).join(', ')
+                                : summary.source}
+                            </span>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
                   {/* BigQuery Link for completed jobs */}
                   {job.status === 'completed' && isRealProcessingEnabled && (
                     <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded">
@@ -292,7 +485,7 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
                         <div>
                           <p className="text-sm font-medium text-green-800">Data Available in BigQuery</p>
                           <p className="text-xs text-green-700">
-                            Your data is now available in: {job.gcpProjectId}.{job.targetTable}
+                            Your data is now available in: {job.dataProjectId || job.gcpProjectId}.{job.targetTable}
                           </p>
                         </div>
                         <Button
@@ -314,7 +507,7 @@ const JobStatus: React.FC<JobStatusProps> = ({ jobs = [], onJobsUpdate }) => {
                         <div>
                           <p className="text-sm font-medium text-yellow-800">Demo Mode</p>
                           <p className="text-xs text-yellow-700">
-                            In production mode, your data would be available at: {job.gcpProjectId}.{job.targetTable}
+                            In production mode, your data would be available at: {job.dataProjectId || job.gcpProjectId}.{job.targetTable}
                           </p>
                         </div>
                         <Button
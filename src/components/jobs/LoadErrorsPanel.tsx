@@ -0,0 +1,101 @@
+import React, { useMemo, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LoadRowError } from '@/types';
+
+interface LoadErrorsPanelProps {
+  errors: LoadRowError[];
+}
+
+const PAGE_SIZE = 20;
+const MAX_ATTRIBUTE_LENGTH = 60;
+
+const formatAttributes = (attributes: Record<string, unknown>) =>
+Object.entries(attributes).
+map(([key, value]) => {
+  const text = typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+  return `${key}: ${text.length > MAX_ATTRIBUTE_LENGTH ? `${text.slice(0, MAX_ATTRIBUTE_LENGTH)}…` : text}`;
+}).
+join('\n');
+
+// Rows BigQuery rejected, filterable by reason, layer and free text over the message, field and attributes
+const LoadErrorsPanel: React.FC<LoadErrorsPanelProps> = ({ errors }) => {
+  const [query, setQuery] = useState('');
+  const [reason, setReason] = useState('all');
+  const [layerName, setLayerName] = useState('all');
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  const reasons = useMemo(() => Array.from(new Set(errors.map((error) => error.reason))), [errors]);
+  const layerNames = useMemo(
+    () => Array.from(new Set(errors.map((error) => error.layerName).filter(Boolean))) as string[],
+    [errors]
+  );
+
+  const filtered = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    return errors.filter((error) =>
+    (reason === 'all' || error.reason === reason) && (
+    layerName === 'all' || error.layerName === layerName) && (
+    !needle ||
+    error.message.toLowerCase().includes(needle) ||
+    error.field?.toLowerCase().includes(needle) ||
+    error.attributes && JSON.stringify(error.attributes).toLowerCase().includes(needle))
+    );
+  }, [errors, query, reason, layerName]);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          placeholder="Filter by message, field or value"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="h-8 max-w-xs text-sm" />
+
+        <select value={reason} onChange={(e) => setReason(e.target.value)} className="h-8 px-2 border rounded text-sm">
+          <option value="all">All reasons</option>
+          {reasons.map((value) => <option key={value} value={value}>{value}</option>)}
+        </select>
+        {layerNames.length > 1 &&
+        <select value={layerName} onChange={(e) => setLayerName(e.target.value)} className="h-8 px-2 border rounded text-sm">
+            <option value="all">All layers</option>
+            {layerNames.map((value) => <option key={value} value={value}>{value}</option>)}
+          </select>
+        }
+        <span className="text-xs text-gray-500">{filtered.length} of {errors.length}</span>
+      </div>
+
+      <div className="border rounded divide-y text-sm">
+        {filtered.slice(0, visible).map((error, index) =>
+        <div key={index} className="p-2 grid grid-cols-1 md:grid-cols-[8rem_1fr_16rem] gap-2">
+            <div className="space-y-1">
+              <Badge variant="outline">{error.reason}</Badge>
+              {error.featureIndex !== undefined && <p className="text-xs text-gray-600">Feature {error.featureIndex}</p>}
+              {error.featureIndex === undefined && error.position !== undefined &&
+            <p className="text-xs text-gray-600">Byte {error.position.toLocaleString()}</p>
+            }
+              {error.layerName && <p className="text-xs text-gray-500">{error.layerName}</p>}
+            </div>
+            <div className="space-y-1">
+              <p className="break-words">{error.message}</p>
+              {error.field && <p className="text-xs text-gray-600">Field: <span className="font-mono">{error.field}</span></p>}
+            </div>
+            <pre className="text-xs text-gray-600 whitespace-pre-wrap break-all max-h-32 overflow-y-auto">
+              {error.attributes ? formatAttributes(error.attributes) : ''}
+            </pre>
+          </div>
+        )}
+        {filtered.length === 0 && <p className="p-2 text-gray-500">No errors match the filter.</p>}
+      </div>
+
+      {filtered.length > visible &&
+      <Button variant="link" size="sm" className="p-0 h-auto" onClick={() => setVisible(visible + PAGE_SIZE)}>
+          Show {Math.min(PAGE_SIZE, filtered.length - visible)} more
+        </Button>
+      }
+    </div>);
+
+};
+
+export default LoadErrorsPanel;
@@ -0,0 +1,369 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { FilePreview, FileProcessingOptions, LayerTarget, SchemaChangeAction, SchemaDiff, SchemaField } from '@/types';
+import { fileProcessingService } from '@/services/fileProcessingService';
+import { bigqueryService } from '@/services/bigqueryService';
+import { diffSchemas, formatSchemaChange } from '@/lib/schemaDiff';
+import { parseTableReference } from '@/lib/tableReference';
+import PreviewMap from '@/components/preview/PreviewMap';
+import { AlertTriangle, ChevronLeft, ChevronRight, Upload } from 'lucide-react';
+
+interface FilePreviewDialogProps {
+  open: boolean;
+  file: File | null;
+  options: FileProcessingOptions;
+  layerTargets: LayerTarget[]; // Selected layers of a multi-layer file, previewed one at a time
+  targetTable: string; // dataset.table or project.dataset.table, used when the file has no layer targets
+  projectId: string; // Project of target tables named without one
+  customSchema?: SchemaField[]; // Load schema in source column names, when one is set
+  schemaChangeAction: SchemaChangeAction;
+  onConfirm: (schemaChangeAction: SchemaChangeAction) => void;
+  onCancel: () => void;
+}
+
+// What the load will do to the target table, null while the table is still being read
+type TargetTableState =
+{status: 'missing';} |
+{status: 'exists';diff: SchemaDiff;numRows?: string;} |
+{status: 'error';message: string;};
+
+const PAGE_SIZE = 25;
+const MAX_CELL_LENGTH = 80;
+
+const formatCell = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return text.length > MAX_CELL_LENGTH ? `${text.slice(0, MAX_CELL_LENGTH)}…` : text;
+};
+
+const formatBbox = (bbox: [number, number, number, number]) => bbox.map((value) => value.toFixed(5)).join(', ');
+
+const SchemaRows: React.FC<{fields: SchemaField[];preview: FilePreview;depth?: number;}> = ({ fields, preview, depth = 0 }) =>
+<>
+    {fields.map((field) => {
+    const summary = depth === 0 ? preview.schemaInference.find((column) => column.column === field.name) : undefined;
+    return (
+      <React.Fragment key={field.name}>
+          <TableRow>
+            <TableCell className="font-mono" style={{ paddingLeft: `${1 + depth * 1.5}rem` }}>{field.name}</TableCell>
+            <TableCell>{field.type}</TableCell>
+            <TableCell>{field.mode}</TableCell>
+            <TableCell className={summary?.conflict || summary && summary.confidence < 1 ? 'text-amber-700' : 'text-gray-600'}>
+              {summary ? `${summary.source}, ${Math.round(summary.confidence * 100)}% fit` : ''}
+            </TableCell>
+          </TableRow>
+          {field.fields && <SchemaRows fields={field.fields} preview={preview} depth={depth + 1} />}
+        </React.Fragment>);
+
+  })}
+  </>;
+
+
+// Shows what a local file will load as before anything is uploaded
+const FilePreviewDialog: React.FC<FilePreviewDialogProps> = ({
+  open,
+  file,
+  options,
+  layerTargets,
+  targetTable,
+  projectId,
+  customSchema,
+  schemaChangeAction,
+  onConfirm,
+  onCancel
+}) => {
+  const [layerName, setLayerName] = useState<string | undefined>(layerTargets[0]?.layerName);
+  const [preview, setPreview] = useState<FilePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [page, setPage] = useState(0);
+  const [targetState, setTargetState] = useState<TargetTableState | null>(null);
+  const [action, setAction] = useState<SchemaChangeAction>(schemaChangeAction);
+
+  useEffect(() => {
+    setLayerName(layerTargets[0]?.layerName);
+  }, [layerTargets]);
+
+  useEffect(() => {
+    if (open) {
+      setAction(schemaChangeAction);
+    }
+  }, [open, schemaChangeAction]);
+
+  useEffect(() => {
+    if (!open || !file) {
+      return;
+    }
+
+    const controller = new AbortController();
+    setPreview(null);
+    setError(null);
+    setProgress(0);
+    setPage(0);
+
+    fileProcessingService.previewFile(file, { ...options, layerName }, setProgress, controller.signal).
+    then(setPreview).
+    catch((previewError) => {
+      if (!controller.signal.aborted) {
+        setError(previewError instanceof Error ? previewError.message : String(previewError));
+      }
+    });
+
+    return () => controller.abort();
+  }, [open, file, options, layerName]);
+
+  const layerTable = layerTargets.find((target) => target.layerName === layerName)?.targetTable || targetTable;
+
+  useEffect(() => {
+    setTargetState(null);
+    if (!preview) {
+      return;
+    }
+
+    // A custom schema only applies to single-table loads and is written in source column names
+    const incoming = layerTargets.length === 0 && customSchema && customSchema.length > 0 ?
+    customSchema.map((field) => ({
+      ...field,
+      name: preview.columnMapping.find((mapping) => mapping.original === field.name)?.final ?? field.name
+    })) :
+    preview.schema;
+    const tableReference = parseTableReference(layerTable, projectId);
+    if (!tableReference) {
+      setTargetState({ status: 'error', message: `${layerTable} is not a dataset.table or project.dataset.table name` });
+      return;
+    }
+
+    let cancelled = false;
+    bigqueryService.getTable(tableReference).
+    then((table) => {
+      if (!cancelled) {
+        setTargetState(table ? { status: 'exists', diff: diffSchemas(table.schema, incoming), numRows: table.numRows } : { status: 'missing' });
+      }
+    }).
+    catch((tableError) => {
+      if (!cancelled) {
+        setTargetState({ status: 'error', message: tableError instanceof Error ? tableError.message : String(tableError) });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [preview, layerTable, layerTargets, projectId, customSchema]);
+
+  const columns = preview?.schema.map((field) => field.name) || [];
+  const pageCount = preview ? Math.max(1, Math.ceil(preview.records.length / PAGE_SIZE)) : 1;
+  const pageRecords = preview?.records.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE) || [];
+  const geometryCount = preview ? Object.values(preview.geometryTypes).reduce((sum, count) => sum + count, 0) : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Preview {file?.name}</DialogTitle>
+          <DialogDescription>
+            Check the parsed records before they are uploaded to Cloud Storage and loaded into BigQuery.
+          </DialogDescription>
+        </DialogHeader>
+
+        {layerTargets.length > 1 &&
+        <div className="flex items-center space-x-2 text-sm">
+            <span className="text-gray-600">Layer</span>
+            <select
+            value={layerName}
+            onChange={(e) => setLayerName(e.target.value)}
+            className="px-2 py-1 border rounded text-sm">
+
+              {layerTargets.map((target) =>
+            <option key={target.layerName} value={target.layerName}>{target.layerName}</option>
+            )}
+            </select>
+          </div>
+        }
+
+        {error &&
+        <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        }
+
+        {!preview && !error &&
+        <div className="space-y-2 py-6">
+            <p className="text-sm text-gray-600">Reading and parsing file...</p>
+            <Progress value={progress} />
+          </div>
+        }
+
+        {preview &&
+        <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-gray-500">Records</p>
+                <p className="font-medium">{preview.recordCount.toLocaleString()}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Geometry Types</p>
+                <div className="flex flex-wrap gap-1">
+                  {Object.entries(preview.geometryTypes).map(([type, count]) =>
+                <Badge key={type} variant="outline">{type} × {count.toLocaleString()}</Badge>
+                )}
+                  {geometryCount < preview.recordCount &&
+                <Badge variant="outline">No geometry × {(preview.recordCount - geometryCount).toLocaleString()}</Badge>
+                }
+                </div>
+              </div>
+              <div>
+                <p className="text-gray-500">Bounding Box (lon/lat)</p>
+                <p className="font-mono text-xs">{preview.bbox ? formatBbox(preview.bbox) : 'n/a'}</p>
+              </div>
+            </div>
+
+            {(preview.sourceCrs || preview.geometryValidation && preview.geometryValidation.invalid > 0) &&
+          <p className="text-xs text-gray-600">
+                {preview.sourceCrs && <>Source CRS: {preview.sourceCrs}. </>}
+                {preview.geometryValidation && preview.geometryValidation.invalid > 0 &&
+            <>
+                    {preview.geometryValidation.invalid} invalid geometries: {preview.geometryValidation.repaired} repaired,{' '}
+                    {preview.geometryValidation.dropped} dropped.
+                  </>
+            }
+              </p>
+          }
+
+            <div className="text-sm space-y-2">
+              <p className="text-gray-500">Target Table <span className="font-mono text-gray-700">{layerTable}</span></p>
+              {!targetState && <p className="text-xs text-gray-500">Checking the target table...</p>}
+              {targetState?.status === 'missing' && <p className="text-xs text-gray-600">The table will be created.</p>}
+              {targetState?.status === 'error' &&
+            <p className="text-xs text-amber-700">Could not read the target table: {targetState.message}</p>
+            }
+              {targetState?.status === 'exists' && targetState.diff.changes.length === 0 &&
+            <p className="text-xs text-gray-600">
+                  The table exists{targetState.numRows ? ` with ${Number(targetState.numRows).toLocaleString()} rows` : ''} and its schema matches.
+                </p>
+            }
+              {targetState?.status === 'exists' && targetState.diff.changes.length > 0 &&
+            <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription className="space-y-2">
+                    <p>The existing table has a different schema:</p>
+                    <ul className="list-disc pl-5 text-xs font-mono">
+                      {targetState.diff.changes.map((change) =>
+                  <li key={change.path} className={change.compatible ? '' : 'text-red-700'}>{formatSchemaChange(change)}</li>
+                  )}
+                    </ul>
+                    <div className="flex items-center space-x-2">
+                      <span>When loading</span>
+                      <select
+                    value={action}
+                    onChange={(e) => setAction(e.target.value as SchemaChangeAction)}
+                    className="px-2 py-1 border rounded text-sm">
+
+                        <option value="abort">Abort the job</option>
+                        <option value="update" disabled={!targetState.diff.compatible}>
+                          Append and update the table schema{targetState.diff.compatible ? '' : ' (incompatible changes)'}
+                        </option>
+                        <option value="replace">Replace the table</option>
+                      </select>
+                    </div>
+                  </AlertDescription>
+                </Alert>
+            }
+            </div>
+
+            <Tabs defaultValue="map">
+              <TabsList>
+                <TabsTrigger value="map">Map</TabsTrigger>
+                <TabsTrigger value="table">Attributes</TabsTrigger>
+                <TabsTrigger value="schema">Schema</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="map" className="space-y-1">
+                <PreviewMap features={preview.features} bbox={preview.bbox} />
+                {preview.features.length < geometryCount &&
+              <p className="text-xs text-gray-500">
+                    Showing the first {preview.features.length.toLocaleString()} of {geometryCount.toLocaleString()} features.
+                  </p>
+              }
+              </TabsContent>
+
+              <TabsContent value="table" className="space-y-2">
+                <div className="overflow-x-auto border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        {columns.map((column) => <TableHead key={column} className="font-mono whitespace-nowrap">{column}</TableHead>)}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {pageRecords.map((record, index) =>
+                    <TableRow key={page * PAGE_SIZE + index}>
+                          {columns.map((column) =>
+                      <TableCell key={column} className="text-xs whitespace-nowrap">{formatCell(record[column])}</TableCell>
+                      )}
+                        </TableRow>
+                    )}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex items-center justify-between text-xs text-gray-500">
+                  <span>
+                    Page {page + 1} of {pageCount}
+                    {preview.records.length < preview.recordCount &&
+                  <> (first {preview.records.length.toLocaleString()} of {preview.recordCount.toLocaleString()} records)</>
+                  }
+                  </span>
+                  <div className="space-x-1">
+                    <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount}>
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </TabsContent>
+
+              <TabsContent value="schema">
+                <div className="border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Column</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Mode</TableHead>
+                        <TableHead>Inference</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      <SchemaRows fields={preview.schema} preview={preview} />
+                    </TableBody>
+                  </Table>
+                </div>
+              </TabsContent>
+            </Tabs>
+          </div>
+        }
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onConfirm(action)} disabled={!preview}>
+            <Upload className="h-4 w-4 mr-2" />
+            Load into BigQuery
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>);
+
+};
+
+export default FilePreviewDialog;
@@ -0,0 +1,69 @@
+import React, { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { FilePreview } from '@/types';
+
+interface PreviewMapProps {
+  features: FilePreview['features'];
+  bbox?: FilePreview['bbox'];
+}
+
+const MAX_POPUP_PROPERTIES = 20;
+
+// Popup content is built from DOM nodes so attribute values are never parsed as HTML
+const createPopup = (properties: Record<string, unknown>): HTMLElement => {
+  const table = document.createElement('table');
+  table.className = 'text-xs';
+  Object.entries(properties).slice(0, MAX_POPUP_PROPERTIES).forEach(([key, value]) => {
+    const row = table.insertRow();
+    const name = row.insertCell();
+    name.className = 'pr-2 font-medium align-top';
+    name.textContent = key;
+    row.insertCell().textContent = value === null || value === undefined ?
+    '' :
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+  return table;
+};
+
+// Draws the preview features on an OpenStreetMap base layer
+const PreviewMap: React.FC<PreviewMapProps> = ({ features, bbox }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) {
+      return;
+    }
+
+    const map = L.map(containerRef.current, { worldCopyJump: true });
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      maxZoom: 19,
+      attribution: '&copy; OpenStreetMap contributors'
+    }).addTo(map);
+
+    // Circle markers avoid Leaflet's default marker images, which bundlers don't resolve
+    L.geoJSON({ type: 'FeatureCollection', features } as GeoJSON.FeatureCollection, {
+      style: { color: '#2563eb', weight: 2, fillOpacity: 0.2 },
+      pointToLayer: (_feature, latlng) => L.circleMarker(latlng, { radius: 5, color: '#2563eb', weight: 1, fillOpacity: 0.7 }),
+      onEachFeature: (feature, layer) => layer.bindPopup(() => createPopup(feature.properties || {}))
+    }).addTo(map);
+
+    if (bbox) {
+      map.fitBounds([[bbox[1], bbox[0]], [bbox[3], bbox[2]]], { padding: [16, 16], maxZoom: 16 });
+    } else {
+      map.setView([0, 0], 1);
+    }
+
+    // The dialog animates open, so the map measures its container again once it has settled
+    const resizeTimer = window.setTimeout(() => map.invalidateSize(), 250);
+
+    return () => {
+      window.clearTimeout(resizeTimer);
+      map.remove();
+    };
+  }, [features, bbox]);
+
+  return <div ref={containerRef} className="h-80 w-full rounded border" />;
+};
+
+export default PreviewMap;
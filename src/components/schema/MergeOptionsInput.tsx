@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { MergeOptions } from '@/types';
+
+interface MergeOptionsInputProps {
+  value: MergeOptions;
+  onChange: (merge: MergeOptions) => void;
+  disabled?: boolean;
+}
+
+// Edits the key columns and behaviour of a merge into the target table
+const MergeOptionsInput: React.FC<MergeOptionsInputProps> = ({ value, onChange, disabled = false }) => {
+  // Kept as typed so a trailing comma survives re-rendering
+  const [keyText, setKeyText] = useState(value.keyColumns.join(', '));
+
+  const updateKeys = (text: string) => {
+    setKeyText(text);
+    onChange({ ...value, keyColumns: text.split(',').map((column) => column.trim()).filter(Boolean) });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="mergeKeyColumns">Key Columns</Label>
+        <Input
+          id="mergeKeyColumns"
+          placeholder="parcel_id"
+          value={keyText}
+          onChange={(e) => updateKeys(e.target.value)}
+          disabled={disabled} />
+
+        <p className="text-sm text-muted-foreground">
+          Source columns that identify a feature. NULL keys match each other, and each key may only appear once in the file.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="mergeMode">Merge Behaviour</Label>
+        <select
+          id="mergeMode"
+          value={value.mode}
+          onChange={(e) => onChange({ ...value, mode: e.target.value as MergeOptions['mode'] })}
+          className="w-full px-2 py-2 border rounded text-sm"
+          disabled={disabled}>
+
+          <option value="upsert">Update matching rows and insert new ones</option>
+          <option value="update">Only update matching rows</option>
+          <option value="insert">Only insert new rows</option>
+        </select>
+      </div>
+
+      <div className="flex items-center justify-between space-x-4 md:col-span-2">
+        <div className="space-y-1">
+          <Label htmlFor="mergeDeleteMissing">Delete Missing Rows</Label>
+          <p className="text-sm text-muted-foreground">
+            Delete rows of the table whose key is not in the file, so the table mirrors the file.
+          </p>
+        </div>
+        <Switch
+          id="mergeDeleteMissing"
+          checked={!!value.deleteMissing}
+          onCheckedChange={(checked) => onChange({ ...value, deleteMissing: checked })}
+          disabled={disabled} />
+      </div>
+    </div>);
+
+};
+
+export default MergeOptionsInput;
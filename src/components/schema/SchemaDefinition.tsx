@@ -7,8 +7,9 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
-import { SchemaField } from '@/types';
+import { ColumnNameStyle, ColumnOverrideType, ColumnTypeOverride, SchemaField } from '@/types';
 import { Settings, Plus, X, Info } from 'lucide-react';
+import SchemaFieldTree from '@/components/schema/SchemaFieldTree';
 
 interface SchemaDefinitionProps {
   autoDetectSchema: boolean;
@@ -17,9 +18,17 @@ interface SchemaDefinitionProps {
   onCustomSchemaChange: (schema: SchemaField[]) => void;
   integerColumns: string;
   onIntegerColumnsChange: (columns: string) => void;
+  typeOverrides: ColumnTypeOverride[];
+  onTypeOverridesChange: (overrides: ColumnTypeOverride[]) => void;
+  columnNameStyle: ColumnNameStyle;
+  onColumnNameStyleChange: (style: ColumnNameStyle) => void;
+  schemaSampleSize?: number;
+  onSchemaSampleSizeChange: (sampleSize: number | undefined) => void;
   disabled?: boolean;
 }
 
+const OVERRIDE_TYPES: ColumnOverrideType[] = ['INTEGER', 'FLOAT', 'NUMERIC', 'BOOLEAN', 'DATE', 'TIMESTAMP'];
+
 const SchemaDefinition: React.FC<SchemaDefinitionProps> = ({
   autoDetectSchema,
   onAutoDetectChange,
@@ -27,6 +36,12 @@ const SchemaDefinition: React.FC<SchemaDefinitionProps> = ({
   onCustomSchemaChange,
   integerColumns = '', // Add default empty string
   onIntegerColumnsChange,
+  typeOverrides = [],
+  onTypeOverridesChange,
+  columnNameStyle = 'snake_case',
+  onColumnNameStyleChange,
+  schemaSampleSize,
+  onSchemaSampleSizeChange,
   disabled = false
 }) => {
   const [newField, setNewField] = useState<SchemaField>({
@@ -39,24 +54,13 @@ const SchemaDefinition: React.FC<SchemaDefinitionProps> = ({
     if (newField.name.trim()) {
       // Ensure customSchema is always an array
       const currentSchema = customSchema || [];
-      onCustomSchemaChange([...currentSchema, { ...newField }]);
+      onCustomSchemaChange([...currentSchema, { ...newField, fields: newField.type === 'RECORD' ? [] : undefined }]);
       setNewField({ name: '', type: 'STRING', mode: 'NULLABLE' });
     }
   };
 
-  const removeField = (index: number) => {
-    // Ensure customSchema is always an array
-    const currentSchema = customSchema || [];
-    const updated = currentSchema.filter((_, i) => i !== index);
-    onCustomSchemaChange(updated);
-  };
-
-  const updateField = (index: number, field: SchemaField) => {
-    // Ensure customSchema is always an array
-    const currentSchema = customSchema || [];
-    const updated = [...currentSchema];
-    updated[index] = field;
-    onCustomSchemaChange(updated);
+  const updateOverride = (index: number, override: ColumnTypeOverride) => {
+    onTypeOverridesChange(typeOverrides.map((existing, i) => i === index ? override : existing));
   };
 
   const exampleSchema = `[
@@ -109,6 +113,24 @@ const SchemaDefinition: React.FC<SchemaDefinitionProps> = ({
 
         </div>
 
+        {autoDetectSchema &&
+        <div className="space-y-2" data-id="tszj68jv1" data-path="src/components/schema/SchemaDefinition.tsx">
+            <Label htmlFor="schema-sample-size" data-id="sdazwy9hz" data-path="src/components/schema/SchemaDefinition.tsx">Inference Sample (Optional)</Label>
+            <Input
+            id="schema-sample-size"
+            type="number"
+            min={1}
+            placeholder="All records"
+            value={schemaSampleSize ?? ''}
+            onChange={(e) => onSchemaSampleSizeChange(Number(e.target.value) > 0 ? Math.floor(Number(e.target.value)) : undefined)}
+            disabled={disabled} data-id="cxva3pfch" data-path="src/components/schema/SchemaDefinition.tsx" />
+
+            <p className="text-sm text-gray-500" data-id="36zk376bb" data-path="src/components/schema/SchemaDefinition.tsx">
+              Number of records, spread over the file, used to infer column types. Sampling speeds up huge files but values outside the sample can still fail the load.
+            </p>
+          </div>
+        }
+
         {!autoDetectSchema &&
         <div className="space-y-4" data-id="rbbhgou34" data-path="src/components/schema/SchemaDefinition.tsx">
             <div data-id="37hbv4r0r" data-path="src/components/schema/SchemaDefinition.tsx">
@@ -119,45 +141,7 @@ const SchemaDefinition: React.FC<SchemaDefinitionProps> = ({
               
               {hasCustomFields &&
             <div className="space-y-2 mb-4" data-id="k37i8yqxt" data-path="src/components/schema/SchemaDefinition.tsx">
-                  {customSchema.map((field, index) =>
-              <div key={index} className="flex items-center space-x-2 p-2 bg-gray-50 rounded" data-id="gttsowcni" data-path="src/components/schema/SchemaDefinition.tsx">
-                      <Input
-                  placeholder="Field name"
-                  value={field.name || ''}
-                  onChange={(e) => updateField(index, { ...field, name: e.target.value })}
-                  className="flex-1" data-id="ny8otsn0g" data-path="src/components/schema/SchemaDefinition.tsx" />
-
-                      <select
-                  value={field.type}
-                  onChange={(e) => updateField(index, { ...field, type: e.target.value as any })}
-                  className="px-2 py-1 border rounded text-sm" data-id="911w9fkao" data-path="src/components/schema/SchemaDefinition.tsx">
-
-                        <option value="STRING" data-id="rrmof9ujd" data-path="src/components/schema/SchemaDefinition.tsx">STRING</option>
-                        <option value="INTEGER" data-id="lll8g4835" data-path="src/components/schema/SchemaDefinition.tsx">INTEGER</option>
-                        <option value="FLOAT" data-id="aru7xfp7d" data-path="src/components/schema/SchemaDefinition.tsx">FLOAT</option>
-                        <option value="BOOLEAN" data-id="rmscblz12" data-path="src/components/schema/SchemaDefinition.tsx">BOOLEAN</option>
-                        <option value="TIMESTAMP" data-id="ot5t7bqwt" data-path="src/components/schema/SchemaDefinition.tsx">TIMESTAMP</option>
-                        <option value="GEOGRAPHY" data-id="wt8vdujli" data-path="src/components/schema/SchemaDefinition.tsx">GEOGRAPHY</option>
-                      </select>
-                      <select
-                  value={field.mode}
-                  onChange={(e) => updateField(index, { ...field, mode: e.target.value as any })}
-                  className="px-2 py-1 border rounded text-sm" data-id="vhhh5ilpo" data-path="src/components/schema/SchemaDefinition.tsx">
-
-                        <option value="NULLABLE" data-id="wvp9837nu" data-path="src/components/schema/SchemaDefinition.tsx">NULLABLE</option>
-                        <option value="REQUIRED" data-id="astjg26iq" data-path="src/components/schema/SchemaDefinition.tsx">REQUIRED</option>
-                        <option value="REPEATED" data-id="6chlw8j5o" data-path="src/components/schema/SchemaDefinition.tsx">REPEATED</option>
-                      </select>
-                      <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => removeField(index)}
-                  className="h-8 w-8 p-0 text-red-600 hover:text-red-700" data-id="evhz5smuq" data-path="src/components/schema/SchemaDefinition.tsx">
-
-                        <X className="h-4 w-4" data-id="awwuje578" data-path="src/components/schema/SchemaDefinition.tsx" />
-                      </Button>
-                    </div>
-              )}
+                  <SchemaFieldTree fields={customSchema} onChange={onCustomSchemaChange} disabled={disabled} />
                 </div>
             }
 
@@ -176,9 +160,16 @@ const SchemaDefinition: React.FC<SchemaDefinitionProps> = ({
                   <option value="STRING" data-id="lp87kfoau" data-path="src/components/schema/SchemaDefinition.tsx">STRING</option>
                   <option value="INTEGER" data-id="bmeun19h3" data-path="src/components/schema/SchemaDefinition.tsx">INTEGER</option>
                   <option value="FLOAT" data-id="czwpgysxz" data-path="src/components/schema/SchemaDefinition.tsx">FLOAT</option>
+                  <option value="NUMERIC" data-id="3303prhyp" data-path="src/components/schema/SchemaDefinition.tsx">NUMERIC</option>
+                  <option value="BIGNUMERIC" data-id="ipytjpkjf" data-path="src/components/schema/SchemaDefinition.tsx">BIGNUMERIC</option>
                   <option value="BOOLEAN" data-id="76a06hvap" data-path="src/components/schema/SchemaDefinition.tsx">BOOLEAN</option>
+                  <option value="DATE" data-id="7w6s7e1ul" data-path="src/components/schema/SchemaDefinition.tsx">DATE</option>
+                  <option value="DATETIME" data-id="w65gck8rr" data-path="src/components/schema/SchemaDefinition.tsx">DATETIME</option>
+                  <option value="TIME" data-id="lpn6jms9c" data-path="src/components/schema/SchemaDefinition.tsx">TIME</option>
                   <option value="TIMESTAMP" data-id="ro96zllj8" data-path="src/components/schema/SchemaDefinition.tsx">TIMESTAMP</option>
+                  <option value="BYTES" data-id="pxsu1ktpp" data-path="src/components/schema/SchemaDefinition.tsx">BYTES</option>
                   <option value="GEOGRAPHY" data-id="iweuo0mcf" data-path="src/components/schema/SchemaDefinition.tsx">GEOGRAPHY</option>
+                  <option value="RECORD" data-id="1nxqs79xv" data-path="src/components/schema/SchemaDefinition.tsx">RECORD</option>
                 </select>
                 <Button onClick={addField} size="sm" data-id="2vyef725l" data-path="src/components/schema/SchemaDefinition.tsx">
                   <Plus className="h-4 w-4" data-id="ij9ns0wje" data-path="src/components/schema/SchemaDefinition.tsx" />
@@ -203,6 +194,23 @@ const SchemaDefinition: React.FC<SchemaDefinitionProps> = ({
           </div>
         }
 
+        <div className="space-y-2" data-id="7wcazd9vm" data-path="src/components/schema/SchemaDefinition.tsx">
+          <Label htmlFor="column-name-style" data-id="hpze1w5pb" data-path="src/components/schema/SchemaDefinition.tsx">Column Names</Label>
+          <select
+            id="column-name-style"
+            value={columnNameStyle}
+            onChange={(e) => onColumnNameStyleChange(e.target.value as ColumnNameStyle)}
+            className="px-2 py-1 border rounded text-sm"
+            disabled={disabled} data-id="3ghu32a6m" data-path="src/components/schema/SchemaDefinition.tsx">
+
+            <option value="snake_case" data-id="p8f010kj1" data-path="src/components/schema/SchemaDefinition.tsx">snake_case (Pop Density → pop_density)</option>
+            <option value="preserve" data-id="ng66wrjz4" data-path="src/components/schema/SchemaDefinition.tsx">Preserve case (Pop Density → Pop_Density)</option>
+          </select>
+          <p className="text-sm text-gray-500" data-id="x7ea779sj" data-path="src/components/schema/SchemaDefinition.tsx">
+            Property names are converted to valid BigQuery column names and duplicates such as NAME and name get a numeric suffix. Renamed columns keep their source name in the column description.
+          </p>
+        </div>
+
         <div className="space-y-2" data-id="xh5b104sc" data-path="src/components/schema/SchemaDefinition.tsx">
           <Label htmlFor="integer-columns" data-id="sxpg9tk4b" data-path="src/components/schema/SchemaDefinition.tsx">Integer Columns (Optional)</Label>
           <Input
@@ -216,6 +224,52 @@ const SchemaDefinition: React.FC<SchemaDefinitionProps> = ({
             Pipe-separated list of columns to convert from string to integer
           </p>
         </div>
+
+        <div className="space-y-2" data-id="sp5j02x74" data-path="src/components/schema/SchemaDefinition.tsx">
+          <Label data-id="ccpvw8z2j" data-path="src/components/schema/SchemaDefinition.tsx">Column Type Overrides (Optional)</Label>
+          {typeOverrides.map((override, index) =>
+          <div key={index} className="flex items-center space-x-2" data-id="fm6k04e1u" data-path="src/components/schema/SchemaDefinition.tsx">
+              <Input
+              placeholder="Column name"
+              value={override.column}
+              onChange={(e) => updateOverride(index, { ...override, column: e.target.value })}
+              className="flex-1"
+              disabled={disabled} data-id="gh92x4404" data-path="src/components/schema/SchemaDefinition.tsx" />
+
+              <select
+              value={override.type}
+              onChange={(e) => updateOverride(index, { ...override, type: e.target.value as ColumnOverrideType })}
+              className="px-2 py-1 border rounded text-sm"
+              disabled={disabled} data-id="ky20k9o9l" data-path="src/components/schema/SchemaDefinition.tsx">
+
+                {OVERRIDE_TYPES.map((type) =>
+              <option key={type} value={type} data-id="nlhh2bdvz" data-path="src/components/schema/SchemaDefinition.tsx">{type}</option>
+              )}
+              </select>
+              <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onTypeOverridesChange(typeOverrides.filter((_, i) => i !== index))}
+              className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+              disabled={disabled} data-id="k2rv9fwa5" data-path="src/components/schema/SchemaDefinition.tsx">
+
+                <X className="h-4 w-4" data-id="8ch0erjtw" data-path="src/components/schema/SchemaDefinition.tsx" />
+              </Button>
+            </div>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onTypeOverridesChange([...typeOverrides, { column: '', type: 'INTEGER' }])}
+            disabled={disabled} data-id="0uxswf7xn" data-path="src/components/schema/SchemaDefinition.tsx">
+
+            <Plus className="h-4 w-4 mr-1" data-id="hidiy54kz" data-path="src/components/schema/SchemaDefinition.tsx" />
+            Add Override
+          </Button>
+          <p className="text-sm text-gray-500" data-id="c3fvkl0su" data-path="src/components/schema/SchemaDefinition.tsx">
+            Converts column values before loading, e.g. DBF codes like "0042" to INTEGER. Values that cannot be converted are loaded as null and listed in the job logs.
+          </p>
+        </div>
       </CardContent>
     </Card>);
 
@@ -0,0 +1,108 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { SchemaField } from '@/types';
+import { Plus, X } from 'lucide-react';
+
+interface SchemaFieldTreeProps {
+  fields: SchemaField[];
+  onChange: (fields: SchemaField[]) => void;
+  disabled?: boolean;
+}
+
+const FIELD_TYPES: SchemaField['type'][] = [
+  'STRING', 'INTEGER', 'FLOAT', 'NUMERIC', 'BIGNUMERIC', 'BOOLEAN', 'DATE', 'DATETIME', 'TIME', 'TIMESTAMP', 'BYTES', 'GEOGRAPHY', 'RECORD'
+];
+
+const FIELD_MODES: SchemaField['mode'][] = ['NULLABLE', 'REQUIRED', 'REPEATED'];
+
+// Edits a list of schema fields; RECORD fields render their children as a nested list
+const SchemaFieldTree: React.FC<SchemaFieldTreeProps> = ({ fields, onChange, disabled = false }) => {
+  const updateField = (index: number, field: SchemaField) => {
+    onChange(fields.map((existing, i) => i === index ? field : existing));
+  };
+
+  const removeField = (index: number) => {
+    onChange(fields.filter((_, i) => i !== index));
+  };
+
+  const changeType = (index: number, type: SchemaField['type']) => {
+    const field = fields[index];
+    updateField(index, { ...field, type, fields: type === 'RECORD' ? field.fields || [] : undefined });
+  };
+
+  const addChild = (index: number) => {
+    const field = fields[index];
+    updateField(index, { ...field, fields: [...(field.fields || []), { name: '', type: 'STRING', mode: 'NULLABLE' }] });
+  };
+
+  return (
+    <div className="space-y-2">
+      {fields.map((field, index) =>
+      <div key={index} className="space-y-2">
+          <div className="flex items-center space-x-2 p-2 bg-gray-50 rounded">
+            <Input
+            placeholder="Field name"
+            value={field.name || ''}
+            onChange={(e) => updateField(index, { ...field, name: e.target.value })}
+            className="flex-1"
+            disabled={disabled} />
+
+            <Input
+            placeholder="Description"
+            value={field.description || ''}
+            onChange={(e) => updateField(index, { ...field, description: e.target.value || undefined })}
+            className="flex-1"
+            disabled={disabled} />
+
+            <select
+            value={field.type}
+            onChange={(e) => changeType(index, e.target.value as SchemaField['type'])}
+            className="px-2 py-1 border rounded text-sm"
+            disabled={disabled}>
+
+              {FIELD_TYPES.map((type) =>
+            <option key={type} value={type}>{type}</option>
+            )}
+            </select>
+            <select
+            value={field.mode}
+            onChange={(e) => updateField(index, { ...field, mode: e.target.value as SchemaField['mode'] })}
+            className="px-2 py-1 border rounded text-sm"
+            disabled={disabled}>
+
+              {FIELD_MODES.map((mode) =>
+            <option key={mode} value={mode}>{mode}</option>
+            )}
+            </select>
+            <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeField(index)}
+            className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+            disabled={disabled}>
+
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {field.type === 'RECORD' &&
+        <div className="ml-6 pl-3 border-l-2 border-gray-200 space-y-2">
+              <SchemaFieldTree
+            fields={field.fields || []}
+            onChange={(children) => updateField(index, { ...field, fields: children })}
+            disabled={disabled} />
+
+              <Button variant="ghost" size="sm" onClick={() => addChild(index)} disabled={disabled}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Subfield
+              </Button>
+            </div>
+        }
+        </div>
+      )}
+    </div>);
+
+};
+
+export default SchemaFieldTree;
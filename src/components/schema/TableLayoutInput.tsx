@@ -0,0 +1,117 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { TableLayout, TablePartitioning } from '@/types';
+import { MAX_CLUSTERING_FIELDS } from '@/lib/tableLayout';
+
+interface TableLayoutInputProps {
+  value: TableLayout;
+  onChange: (layout: TableLayout) => void;
+  disabled?: boolean;
+}
+
+const GRANULARITIES: NonNullable<TablePartitioning['granularity']>[] = ['HOUR', 'DAY', 'MONTH', 'YEAR'];
+
+const DEFAULT_RANGE = { start: 0, end: 1000, interval: 10 };
+
+// Edits the partitioning and clustering used when the target table is created
+const TableLayoutInput: React.FC<TableLayoutInputProps> = ({ value, onChange, disabled = false }) => {
+  const { partitioning, clusteringFields = [] } = value;
+
+  const changeKind = (kind: string) => {
+    if (kind === 'none') {
+      onChange({ ...value, partitioning: undefined });
+      return;
+    }
+    onChange({
+      ...value,
+      partitioning: {
+        kind: kind as TablePartitioning['kind'],
+        field: kind === 'ingestion' ? undefined : partitioning?.field,
+        granularity: kind === 'range' ? undefined : partitioning?.granularity || 'DAY',
+        range: kind === 'range' ? partitioning?.range || DEFAULT_RANGE : undefined
+      }
+    });
+  };
+
+  const updatePartitioning = (changes: Partial<TablePartitioning>) => {
+    onChange({ ...value, partitioning: { ...partitioning!, ...changes } });
+  };
+
+  const updateRange = (key: 'start' | 'end' | 'interval', text: string) => {
+    updatePartitioning({ range: { ...(partitioning?.range || DEFAULT_RANGE), [key]: text === '' ? NaN : Number(text) } });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2">
+        <Label htmlFor="partitioningKind">Partitioning</Label>
+        <div className="flex items-center space-x-2">
+          <select
+            id="partitioningKind"
+            value={partitioning?.kind || 'none'}
+            onChange={(e) => changeKind(e.target.value)}
+            className="px-2 py-2 border rounded text-sm flex-1"
+            disabled={disabled}>
+
+            <option value="none">None</option>
+            <option value="time">By a date or timestamp column</option>
+            <option value="ingestion">By ingestion time</option>
+            <option value="range">By integer range</option>
+          </select>
+          {partitioning && partitioning.kind !== 'range' &&
+          <select
+            value={partitioning.granularity || 'DAY'}
+            onChange={(e) => updatePartitioning({ granularity: e.target.value as TablePartitioning['granularity'] })}
+            className="px-2 py-2 border rounded text-sm"
+            disabled={disabled}>
+
+              {GRANULARITIES.map((granularity) =>
+            <option key={granularity} value={granularity}>{granularity}</option>
+            )}
+            </select>
+          }
+        </div>
+        {partitioning && partitioning.kind !== 'ingestion' &&
+        <Input
+          placeholder={partitioning.kind === 'range' ? 'INTEGER column' : 'DATE, TIMESTAMP or DATETIME column'}
+          value={partitioning.field || ''}
+          onChange={(e) => updatePartitioning({ field: e.target.value })}
+          disabled={disabled} />
+
+        }
+        {partitioning?.kind === 'range' &&
+        <div className="grid grid-cols-3 gap-2">
+            {(['start', 'end', 'interval'] as const).map((key) =>
+          <Input
+            key={key}
+            type="number"
+            placeholder={key}
+            value={Number.isNaN(partitioning.range?.[key]) ? '' : partitioning.range?.[key] ?? ''}
+            onChange={(e) => updateRange(key, e.target.value)}
+            disabled={disabled} />
+
+          )}
+          </div>
+        }
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="clusteringFields">Clustering Columns (Optional)</Label>
+        <Input
+          id="clusteringFields"
+          placeholder="geometry, county"
+          value={clusteringFields.join(', ')}
+          onChange={(e) => onChange({ ...value, clusteringFields: e.target.value.split(',').map((column) => column.trim()) })}
+          disabled={disabled} />
+
+        <p className="text-sm text-muted-foreground">
+          Up to {MAX_CLUSTERING_FIELDS} columns, most filtered first. Clustering on the GEOGRAPHY column speeds up spatial filters.
+          Partitioning and clustering apply when the table is created.
+        </p>
+      </div>
+    </div>);
+
+};
+
+export default TableLayoutInput;
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { TableMetadata } from '@/types';
+import { formatLabels, parseLabels } from '@/lib/tableMetadata';
+
+interface TableMetadataInputProps {
+  value: TableMetadata;
+  onChange: (metadata: TableMetadata) => void;
+  disabled?: boolean;
+}
+
+// Edits the description, friendly name, labels and expiration set on target tables after loading
+const TableMetadataInput: React.FC<TableMetadataInputProps> = ({ value, onChange, disabled = false }) => {
+  // Labels are kept as typed so partial entries like "team=" survive re-rendering
+  const [labelText, setLabelText] = useState(formatLabels(value.labels));
+
+  const updateLabels = (text: string) => {
+    setLabelText(text);
+    const labels = parseLabels(text);
+    onChange({ ...value, labels: Object.keys(labels).length > 0 ? labels : undefined });
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor="tableDescription">Table Description (Optional)</Label>
+        <Textarea
+          id="tableDescription"
+          placeholder="What the table contains and where the data comes from"
+          value={value.description || ''}
+          onChange={(e) => onChange({ ...value, description: e.target.value || undefined })}
+          rows={2}
+          disabled={disabled} />
+
+        <p className="text-sm text-muted-foreground">
+          The source file, size, CRS, feature count, job ID and your email are added after each load.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="friendlyName">Friendly Name (Optional)</Label>
+        <Input
+          id="friendlyName"
+          placeholder="Statewide Parcels"
+          value={value.friendlyName || ''}
+          onChange={(e) => onChange({ ...value, friendlyName: e.target.value || undefined })}
+          disabled={disabled} />
+
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="expirationDays">Expire After Days (Optional)</Label>
+        <Input
+          id="expirationDays"
+          type="number"
+          min={1}
+          placeholder="Never"
+          value={value.expirationDays ?? ''}
+          onChange={(e) => onChange({ ...value, expirationDays: e.target.value ? Number(e.target.value) : undefined })}
+          disabled={disabled} />
+
+      </div>
+
+      <div className="space-y-2 md:col-span-2">
+        <Label htmlFor="tableLabels">Labels (Optional)</Label>
+        <Input
+          id="tableLabels"
+          placeholder="team=gis, env=prod"
+          value={labelText}
+          onChange={(e) => updateLabels(e.target.value)}
+          disabled={disabled} />
+
+        <p className="text-sm text-muted-foreground">
+          Lowercase keys and values. loaded_by_job, source_file and source_crs labels are set automatically.
+        </p>
+      </div>
+    </div>);
+
+};
+
+export default TableMetadataInput;
@@ -5,6 +5,11 @@ import { Button } from '@/components/ui/button';
 import { Upload, File, X, CheckCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
+const ACCEPTED_EXTENSIONS = ['.zip', '.kml', '.kmz', '.gpkg', '.geojson', '.geojsonl', '.json', '.ndjson', '.csv', '.tsv', '.txt'];
+
+const isAcceptedFile = (file: File) =>
+ACCEPTED_EXTENSIONS.some((extension) => file.name.toLowerCase().endsWith(extension));
+
 interface FileUploadZoneProps {
   onFileSelect: (file: File | null) => void;
   selectedFile: File | null;
@@ -37,16 +42,16 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
     if (disabled) return;
 
     const files = Array.from(e.dataTransfer.files);
-    const zipFile = files.find((file) => file.name.endsWith('.zip'));
+    const acceptedFile = files.find(isAcceptedFile);
 
-    if (zipFile) {
-      onFileSelect(zipFile);
+    if (acceptedFile) {
+      onFileSelect(acceptedFile);
     }
   }, [onFileSelect, disabled]);
 
   const handleFileInput = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.name.endsWith('.zip')) {
+    if (file && isAcceptedFile(file)) {
       onFileSelect(file);
     }
     e.target.value = '';
@@ -117,17 +122,17 @@ const FileUploadZone: React.FC<FileUploadZoneProps> = ({
               
               <div className="space-y-2" data-id="kcxkzyq10" data-path="src/components/upload/FileUploadZone.tsx">
                 <h3 className="text-lg font-medium text-gray-900" data-id="i85ygfbv9" data-path="src/components/upload/FileUploadZone.tsx">
-                  Drop your shapefile here
+                  Drop your spatial file here
                 </h3>
                 <p className="text-sm text-gray-500" data-id="sku7njrdo" data-path="src/components/upload/FileUploadZone.tsx">
-                  Upload a .zip file containing your complete shapefile (.shp, .shx, .dbf, etc.)
+                  Upload a .zip file containing your complete shapefile (.shp, .shx, .dbf, etc.), or a GeoPackage, KML, KMZ, GeoJSON or CSV file
                 </p>
               </div>
 
               <div className="flex items-center space-x-2" data-id="ov2d4zlkm" data-path="src/components/upload/FileUploadZone.tsx">
                 <input
                 type="file"
-                accept=".zip"
+                accept={ACCEPTED_EXTENSIONS.join(',')}
                 onChange={handleFileInput}
                 className="hidden"
                 id="file-upload"
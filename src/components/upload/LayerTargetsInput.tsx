@@ -0,0 +1,68 @@
+import React from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Layers } from 'lucide-react';
+import { LayerTarget } from '@/types';
+
+interface LayerTargetsInputProps {
+  layerTargets: LayerTarget[];
+  onLayerTargetsChange: (layerTargets: LayerTarget[]) => void;
+  disabled?: boolean;
+}
+
+const LayerTargetsInput: React.FC<LayerTargetsInputProps> = ({
+  layerTargets,
+  onLayerTargetsChange,
+  disabled = false
+}) => {
+  const updateTarget = (layerName: string, updates: Partial<LayerTarget>) => {
+    onLayerTargetsChange(layerTargets.map((target) =>
+    target.layerName === layerName ? { ...target, ...updates } : target
+    ));
+  };
+
+  const selectedCount = layerTargets.filter((target) => target.selected).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Layers className="h-5 w-5" />
+          <span>Layers</span>
+          <Badge variant="outline">{selectedCount} of {layerTargets.length} selected</Badge>
+        </CardTitle>
+        <CardDescription>
+          This file contains several layers. Each selected layer is loaded into its own table with its own inferred schema.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {layerTargets.map((target) =>
+        <div key={target.layerName} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-center">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+              id={`layer-selected-${target.layerName}`}
+              checked={target.selected}
+              onCheckedChange={(checked) => updateTarget(target.layerName, { selected: checked === true })}
+              disabled={disabled} />
+              <Label htmlFor={`layer-selected-${target.layerName}`} className="font-mono text-sm break-all">
+                {target.layerName}
+              </Label>
+            </div>
+            <Input
+            id={`layer-${target.layerName}`}
+            className="md:col-span-2"
+            placeholder="dataset.table_name"
+            value={target.targetTable}
+            onChange={(e) => updateTarget(target.layerName, { targetTable: e.target.value })}
+            disabled={disabled || !target.selected} />
+          </div>
+        )}
+      </CardContent>
+    </Card>);
+
+};
+
+export default LayerTargetsInput;
@@ -0,0 +1,178 @@
+import { ColumnCoercionReport, ColumnOverrideType, ColumnTypeOverride } from '@/types';
+
+// Applies user column type overrides to records before they are serialized to NDJSON.
+// Values are written in the JSON form BigQuery accepts for each type.
+
+type CoercionResult = {ok: true;value: unknown;} | {ok: false;};
+
+const MAX_REPORTED_FAILURES = 5;
+
+const INTEGER_PATTERN = /^[+-]?\d+(\.0*)?$/;
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+const COMPACT_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})$/; // DBF D fields
+const DATE_PATTERN = /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/;
+// A time followed by Z, an offset or a zone name, as in 10:00Z, 10:00:00+02:00 or 10:00 GMT+0200 (CEST)
+const TIME_ZONE_PATTERN = /\d:\d{2}(:\d{2}(\.\d+)?)?\s*(Z|(UTC|GMT)?\s*[+-]\d{2}:?\d{2}|UTC|GMT|[ECMP][SD]T)(\s*\(.*\))?$/i;
+
+const TRUE_VALUES = new Set(['true', 't', 'yes', 'y', '1']);
+const FALSE_VALUES = new Set(['false', 'f', 'no', 'n', '0']);
+
+const failure: CoercionResult = { ok: false };
+const success = (value: unknown): CoercionResult => ({ ok: true, value });
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return `${pad(year, 4)}-${pad(month)}-${pad(day)}`;
+};
+
+const parseDateParts = (text: string): string | null => {
+  const match = text.match(COMPACT_DATE_PATTERN) || text.match(DATE_PATTERN);
+  return match ? toIsoDate(Number(match[1]), Number(match[2]), Number(match[3])) : null;
+};
+
+// Date.parse reads strings without a time zone in the browser's local time. Their wall-clock time
+// is taken as UTC instead, so a file loads the same values on every machine.
+const parseUtc = (text: string): Date | null => {
+  const parsed = Date.parse(text);
+  if (Number.isNaN(parsed)) {
+    return null;
+  }
+  const date = new Date(parsed);
+  return TIME_ZONE_PATTERN.test(text) ? date : new Date(Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  ));
+};
+
+const coerceInteger = (value: unknown): CoercionResult => {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? success(value) : failure;
+  }
+  const text = String(value).trim();
+  if (!INTEGER_PATTERN.test(text)) {
+    return failure;
+  }
+  const digits = text.replace(/\.0*$/, '');
+  const parsed = Number(digits);
+  // INT64 values beyond 2^53 are passed as strings so no precision is lost
+  return success(Number.isSafeInteger(parsed) ? parsed : digits.replace(/^\+/, ''));
+};
+
+const coerceFloat = (value: unknown): CoercionResult => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? success(value) : failure;
+  }
+  const text = String(value).trim();
+  return DECIMAL_PATTERN.test(text) ? success(Number(text)) : failure;
+};
+
+// NUMERIC keeps the decimal text, a JS number would round it
+const coerceNumeric = (value: unknown): CoercionResult => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? success(String(value)) : failure;
+  }
+  const text = String(value).trim();
+  return DECIMAL_PATTERN.test(text) ? success(text.replace(/^\+/, '')) : failure;
+};
+
+const coerceBoolean = (value: unknown): CoercionResult => {
+  if (typeof value === 'boolean') {
+    return success(value);
+  }
+  const text = String(value).trim().toLowerCase();
+  if (TRUE_VALUES.has(text)) {
+    return success(true);
+  }
+  if (FALSE_VALUES.has(text)) {
+    return success(false);
+  }
+  return failure;
+};
+
+const coerceDate = (value: unknown): CoercionResult => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? failure : success(value.toISOString().slice(0, 10));
+  }
+  const text = String(value).trim();
+  const isoDate = parseDateParts(text);
+  if (isoDate) {
+    return success(isoDate);
+  }
+  const date = parseUtc(text);
+  return date ? success(date.toISOString().slice(0, 10)) : failure;
+};
+
+const coerceTimestamp = (value: unknown): CoercionResult => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? failure : success(value.toISOString());
+  }
+  const text = String(value).trim();
+  const isoDate = parseDateParts(text);
+  if (isoDate) {
+    return success(`${isoDate}T00:00:00.000Z`);
+  }
+  const date = parseUtc(text);
+  return date ? success(date.toISOString()) : failure;
+};
+
+const COERCERS: Record<ColumnOverrideType, (value: unknown) => CoercionResult> = {
+  INTEGER: coerceInteger,
+  FLOAT: coerceFloat,
+  NUMERIC: coerceNumeric,
+  BOOLEAN: coerceBoolean,
+  DATE: coerceDate,
+  TIMESTAMP: coerceTimestamp
+};
+
+export const coerceValue = (value: unknown, type: ColumnOverrideType): CoercionResult => {
+  if (value === null || value === undefined || value === '') {
+    return success(null);
+  }
+  return COERCERS[type](value);
+};
+
+// Rewrites the overridden columns in place. Values that cannot be converted become null
+// and are reported per column with a few examples.
+export const coerceColumns = (
+records: Record<string, unknown>[],
+overrides: ColumnTypeOverride[])
+: ColumnCoercionReport[] => {
+  return overrides.map(({ column, type }) => {
+    const report: ColumnCoercionReport = { column, type, converted: 0, failed: 0, missing: true, failures: [] };
+
+    records.forEach((record, recordIndex) => {
+      if (!(column in record)) {
+        return;
+      }
+      report.missing = false;
+
+      const original = record[column];
+      const result = coerceValue(original, type);
+      if (result.ok) {
+        record[column] = result.value;
+        if (result.value !== null) {
+          report.converted++;
+        }
+        return;
+      }
+
+      record[column] = null;
+      report.failed++;
+      if (report.failures.length < MAX_REPORTED_FAILURES) {
+        report.failures.push({ recordIndex, value: String(original) });
+      }
+    });
+
+    return report;
+  });
+};
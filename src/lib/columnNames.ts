@@ -0,0 +1,129 @@
+import { ColumnMapping, ColumnNameStyle } from '@/types';
+
+// Normalizes source property names into valid, unique BigQuery column names
+
+const MAX_COLUMN_NAME_LENGTH = 300;
+
+// Prefixes BigQuery reserves for pseudo-columns, compared case-insensitively
+const RESERVED_PREFIXES = ['_table_', '_file_', '_partition', '_row_timestamp', '__root__', '_colidentifier'];
+
+export const sanitizeColumnName = (name: string, style: ColumnNameStyle): string => {
+  let result = name.replace(/\u00df/g, 'ss').normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+
+  if (style === 'snake_case') {
+    result = result.
+    replace(/([a-z0-9])([A-Z])/g, '$1_$2').
+    replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2').
+    toLowerCase();
+  }
+
+  result = result.
+  replace(/[^A-Za-z0-9_]+/g, '_').
+  replace(/_{2,}/g, '_').
+  replace(/^_+|_+$/g, '');
+
+  // Underscores produced by replaced characters are trimmed, a source leading underscore is kept
+  if (result && name.trim().startsWith('_')) {
+    result = `_${result}`;
+  }
+  if (!result) {
+    result = 'column';
+  }
+  if (/^[0-9]/.test(result)) {
+    result = `_${result}`;
+  }
+  if (RESERVED_PREFIXES.some((prefix) => result.toLowerCase().startsWith(prefix))) {
+    result = `f${result}`;
+  }
+
+  return result.slice(0, MAX_COLUMN_NAME_LENGTH);
+};
+
+// Appends _2, _3, ... until the name is unused. BigQuery column names are case-insensitive,
+// so "NAME" and "name" collide.
+const claimUniqueName = (base: string, used: Set<string>): string => {
+  let final = base;
+  for (let suffix = 2; used.has(final.toLowerCase()); suffix++) {
+    const tail = `_${suffix}`;
+    final = base.slice(0, MAX_COLUMN_NAME_LENGTH - tail.length) + tail;
+  }
+  used.add(final.toLowerCase());
+  return final;
+};
+
+// Reserved names present in the file, such as the geometry column the parser adds, are claimed first
+// and kept, so a source column that sanitizes to one gets a suffix instead
+export const buildColumnMapping = (names: string[], style: ColumnNameStyle, reservedNames: string[] = []): ColumnMapping[] => {
+  const reserved = reservedNames.filter((name) => names.includes(name));
+  const used = new Set(reserved.map((name) => name.toLowerCase()));
+  return names.map((original) => ({
+    original,
+    final: reserved.includes(original) ? original : claimUniqueName(sanitizeColumnName(original, style), used)
+  }));
+};
+
+// Collects column names in first-seen order across all records
+export const collectColumnNames = (records: Record<string, unknown>[]): string[] => {
+  const names = new Set<string>();
+  records.forEach((record) => Object.keys(record).forEach((key) => names.add(key)));
+  return Array.from(names);
+};
+
+const isNestedValue = (value: unknown) => value !== null && typeof value === 'object';
+
+// Keys of nested objects become RECORD field names and follow the same rules. Names are
+// deduplicated per parent path so every record maps a key the same way.
+const createNestedRenamer = (style: ColumnNameStyle) => {
+  const finalNames = new Map<string, Map<string, string>>();
+  const usedNames = new Map<string, Set<string>>();
+
+  const finalName = (path: string, key: string) => {
+    if (!finalNames.has(path)) {
+      finalNames.set(path, new Map());
+      usedNames.set(path, new Set());
+    }
+    const names = finalNames.get(path) as Map<string, string>;
+    if (!names.has(key)) {
+      names.set(key, claimUniqueName(sanitizeColumnName(key, style), usedNames.get(path) as Set<string>));
+    }
+    return names.get(key) as string;
+  };
+
+  const renameValue = (value: unknown, path: string): unknown => {
+    if (Array.isArray(value)) {
+      return value.map((element) => renameValue(element, path));
+    }
+    if (!isNestedValue(value)) {
+      return value;
+    }
+    const renamed: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, child]) => {
+      const name = finalName(path, key);
+      renamed[name] = renameValue(child, `${path}.${name}`);
+    });
+    return renamed;
+  };
+
+  return renameValue;
+};
+
+export const renameColumns = (
+records: Record<string, unknown>[],
+mapping: ColumnMapping[],
+style: ColumnNameStyle)
+: Record<string, unknown>[] => {
+  const hasNestedValues = records.some((record) => Object.values(record).some(isNestedValue));
+  if (!hasNestedValues && mapping.every(({ original, final }) => original === final)) {
+    return records;
+  }
+  const finalNames = new Map(mapping.map(({ original, final }) => [original, final]));
+  const renameNested = createNestedRenamer(style);
+  return records.map((record) => {
+    const renamed: Record<string, unknown> = {};
+    Object.entries(record).forEach(([key, value]) => {
+      const name = finalNames.get(key) ?? key;
+      renamed[name] = renameNested(value, name);
+    });
+    return renamed;
+  });
+};
@@ -0,0 +1,234 @@
+import { GeoJSONGeometry } from '@/types';
+import { looksLikeWkt, parseWkt } from './wkt';
+import { hexToBytes, looksLikeWkbHex, parseWkb } from './wkb';
+
+// RFC 4180 CSV reader with delimiter sniffing and geometry column detection
+
+const CANDIDATE_DELIMITERS = [',', '\t', ';', '|'];
+const SNIFF_LINE_COUNT = 10;
+const DETECTION_SAMPLE_SIZE = 50;
+
+const WKT_COLUMN_NAMES = ['wkt', 'geometry', 'geom', 'the_geom', 'shape', 'wkb_geometry', 'geography'];
+const LATITUDE_COLUMN_NAMES = ['lat', 'latitude', 'y', 'lat_dd', 'point_y', 'ycoord', 'y_coord'];
+const LONGITUDE_COLUMN_NAMES = ['lon', 'lng', 'long', 'longitude', 'x', 'lon_dd', 'long_dd', 'point_x', 'xcoord', 'x_coord'];
+
+export type CsvGeometrySource =
+{kind: 'wkt';column: string;} |
+{kind: 'wkb';column: string;} |
+{kind: 'latlon';latitudeColumn: string;longitudeColumn: string;} |
+{kind: 'none';};
+
+// Counts delimiter occurrences outside quoted sections for the first few lines
+const countOutsideQuotes = (line: string, delimiter: string): number => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === delimiter && !inQuotes) {
+      count++;
+    }
+  }
+  return count;
+};
+
+export const sniffDelimiter = (text: string): string => {
+  const lines = text.slice(0, 65536).split(/\r?\n/).filter((line) => line.trim()).slice(0, SNIFF_LINE_COUNT);
+  if (lines.length === 0) {
+    return ',';
+  }
+
+  let best = ',';
+  let bestScore = 0;
+  CANDIDATE_DELIMITERS.forEach((delimiter) => {
+    const counts = lines.map((line) => countOutsideQuotes(line, delimiter));
+    const header = counts[0];
+    if (header === 0) {
+      return;
+    }
+    // Prefer delimiters that split every line into the same number of fields
+    const consistent = counts.filter((count) => count === header).length;
+    const score = consistent * 1000 + header;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+export const parseCsv = (text: string, delimiter: string = sniffDelimiter(text)): string[][] => {
+  const content = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let i = 0;
+
+  const endField = () => {
+    row.push(field);
+    field = '';
+  };
+
+  const endRow = () => {
+    endField();
+    // Blank lines are skipped rather than producing empty records
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+  };
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (content[i + 1] === '"') {
+          field += '"';
+          i += 2;
+          continue;
+        }
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      endField();
+    } else if (char === '\r') {
+      endRow();
+      if (content[i + 1] === '\n') {
+        i++;
+      }
+    } else if (char === '\n') {
+      endRow();
+    } else {
+      field += char;
+    }
+    i++;
+  }
+
+  if (inQuotes) {
+    throw new Error('Invalid CSV: unterminated quoted field');
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+};
+
+const isLatitude = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== '' && !isNaN(number) && number >= -90 && number <= 90;
+};
+
+const isLongitude = (value: string) => {
+  const number = Number(value);
+  return value.trim() !== '' && !isNaN(number) && number >= -180 && number <= 180;
+};
+
+// Exact duplicate headers would share one record key, so repeats get a suffix: name, name_2, ...
+export const uniqueHeaders = (headers: string[]): string[] => {
+  const used = new Set(headers);
+  const seen = new Set<string>();
+  return headers.map((header) => {
+    if (!seen.has(header)) {
+      seen.add(header);
+      return header;
+    }
+    let unique = header;
+    for (let suffix = 2; used.has(unique); suffix++) {
+      unique = `${header}_${suffix}`;
+    }
+    used.add(unique);
+    return unique;
+  });
+};
+
+const parsesAll = (values: string[], parse: (value: string) => unknown): boolean =>
+values.every((value) => {
+  try {
+    parse(value);
+    return true;
+  } catch {
+    return false;
+  }
+});
+
+const findColumn = (headers: string[], names: string[]): string | undefined =>
+names.map((name) => headers.find((header) => header.trim().toLowerCase() === name)).find(Boolean);
+
+export const detectGeometrySource = (
+headers: string[],
+records: Record<string, string | null>[])
+: CsvGeometrySource => {
+  const sample = records.slice(0, DETECTION_SAMPLE_SIZE);
+  const sampleValues = (column: string) =>
+  sample.map((record) => record[column]).filter((value): value is string => !!value && value.trim() !== '');
+
+  // Named geometry columns win, then any column whose values all parse as WKT or WKB hex. A prefix
+  // match alone would pick free text that starts with a word like "Point".
+  const orderedHeaders = [
+  ...headers.filter((header) => WKT_COLUMN_NAMES.includes(header.trim().toLowerCase())),
+  ...headers.filter((header) => !WKT_COLUMN_NAMES.includes(header.trim().toLowerCase()))];
+
+  for (const header of orderedHeaders) {
+    const values = sampleValues(header);
+    if (values.length === 0) {
+      continue;
+    }
+    if (values.every(looksLikeWkt) && parsesAll(values, parseWkt)) {
+      return { kind: 'wkt', column: header };
+    }
+    if (values.every(looksLikeWkbHex) && parsesAll(values, (value) => parseWkb(hexToBytes(value)))) {
+      return { kind: 'wkb', column: header };
+    }
+  }
+
+  const latitudeColumn = findColumn(headers, LATITUDE_COLUMN_NAMES);
+  const longitudeColumn = findColumn(headers, LONGITUDE_COLUMN_NAMES);
+  if (latitudeColumn && longitudeColumn) {
+    const latitudes = sampleValues(latitudeColumn);
+    const longitudes = sampleValues(longitudeColumn);
+    if (latitudes.length > 0 && latitudes.every(isLatitude) && longitudes.every(isLongitude)) {
+      return { kind: 'latlon', latitudeColumn, longitudeColumn };
+    }
+  }
+
+  return { kind: 'none' };
+};
+
+export const readCsvGeometry = (
+record: Record<string, string | null>,
+source: CsvGeometrySource)
+: GeoJSONGeometry | null => {
+  switch (source.kind) {
+    case 'wkt':{
+        const value = record[source.column];
+        return value ? parseWkt(value) : null;
+      }
+    case 'wkb':{
+        const value = record[source.column];
+        return value ? parseWkb(hexToBytes(value)) : null;
+      }
+    case 'latlon':{
+        const latitude = record[source.latitudeColumn];
+        const longitude = record[source.longitudeColumn];
+        if (!latitude || !longitude || !isLatitude(latitude) || !isLongitude(longitude)) {
+          return null;
+        }
+        return { type: 'Point', coordinates: [Number(longitude), Number(latitude)] };
+      }
+    default:
+      return null;
+  }
+};
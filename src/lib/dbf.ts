@@ -0,0 +1,191 @@
+import { SchemaField } from '@/types';
+
+// dBase (.dbf) reader driven by the field descriptors, so numeric precision, dates and
+// logical values survive instead of going through parseFloat/Date like shpjs does
+
+export interface DbfField {
+  name: string;
+  type: string; // C, N, F, L, D, O, M, ...
+  length: number;
+  decimals: number;
+}
+
+export interface DbfTable {
+  fields: DbfField[];
+  records: Record<string, unknown>[];
+}
+
+const HEADER_LENGTH = 32;
+const DESCRIPTOR_LENGTH = 32;
+const DESCRIPTOR_TERMINATOR = 0x0d;
+
+// NUMERIC holds 29 integer and 9 fractional digits, anything wider needs BIGNUMERIC
+const NUMERIC_INTEGER_DIGITS = 29;
+const NUMERIC_SCALE = 9;
+// 18 digits always fit into INT64
+const MAX_INTEGER_DIGITS = 18;
+
+// F fields, and some N fields, are written in exponent form such as 1.234000000e+05
+const DECIMAL_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/;
+
+// .cpg files hold labels like "UTF-8", "1252" or "ANSI 1252"
+const createDecoder = (cpg?: string): TextDecoder => {
+  const label = cpg?.trim();
+  if (label) {
+    const codePage = label.match(/^(?:ANSI\s)?(\d+)$/);
+    try {
+      return new TextDecoder(codePage ? `windows-${codePage[1]}` : label);
+    } catch {
+      console.warn('⚠️ Unknown .cpg encoding, falling back to UTF-8:', label);
+    }
+  }
+  return new TextDecoder('utf-8');
+};
+
+export const dbfFieldToSchemaType = (field: DbfField): SchemaField['type'] => {
+  switch (field.type) {
+    case 'N':
+    case 'F': {
+      const integerDigits = field.decimals > 0 ? field.length - field.decimals - 1 : field.length;
+      if (field.decimals === 0 && field.length <= MAX_INTEGER_DIGITS) {
+        return 'INTEGER';
+      }
+      return field.decimals <= NUMERIC_SCALE && integerDigits <= NUMERIC_INTEGER_DIGITS ? 'NUMERIC' : 'BIGNUMERIC';
+    }
+    case 'O':
+      return 'FLOAT';
+    case 'L':
+      return 'BOOLEAN';
+    case 'D':
+      return 'DATE';
+    default:
+      return 'STRING';
+  }
+};
+
+const readFields = (view: DataView, bytes: Uint8Array, headerLength: number, decoder: TextDecoder): DbfField[] => {
+  const fields: DbfField[] = [];
+  for (let offset = HEADER_LENGTH; offset + DESCRIPTOR_LENGTH <= headerLength; offset += DESCRIPTOR_LENGTH) {
+    if (bytes[offset] === DESCRIPTOR_TERMINATOR) {
+      break;
+    }
+    fields.push({
+      name: decoder.decode(bytes.subarray(offset, offset + 11)).replace(/\0[\s\S]*$/, '').trim(),
+      type: String.fromCharCode(bytes[offset + 11]).toUpperCase(),
+      length: view.getUint8(offset + 16),
+      decimals: view.getUint8(offset + 17)
+    });
+  }
+  return fields;
+};
+
+// Moves the decimal point by the exponent on the digits themselves, so no precision is lost to a float
+const expandExponent = (text: string): string => {
+  const match = text.match(/^([+-]?)(\d*)\.?(\d*)[eE]([+-]?\d+)$/);
+  if (!match) {
+    return text;
+  }
+  const [, sign, whole, fraction, exponent] = match;
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponent);
+
+  let result: string;
+  if (point <= 0) {
+    result = `0.${'0'.repeat(-point)}${digits}`;
+  } else if (point >= digits.length) {
+    result = digits + '0'.repeat(point - digits.length);
+  } else {
+    result = `${digits.slice(0, point)}.${digits.slice(point)}`;
+  }
+  result = result.
+  replace(/^0+(?=\d)/, '').
+  replace(/(\.\d*?)0+$/, '$1').
+  replace(/\.$/, '');
+  return sign === '-' && /[1-9]/.test(result) ? `-${result}` : result;
+};
+
+const parseNumber = (text: string, field: DbfField): unknown => {
+  // Blank and asterisk-filled (overflowed) values carry no number
+  if (!DECIMAL_PATTERN.test(text)) {
+    return null;
+  }
+  const decimal = expandExponent(text);
+  if (dbfFieldToSchemaType(field) === 'INTEGER') {
+    const value = Number(decimal);
+    return Number.isSafeInteger(value) ? value : decimal.replace(/^\+/, '');
+  }
+  // NUMERIC values stay decimal strings so BigQuery receives every digit
+  return decimal.replace(/^\+/, '').replace(/^(-?)\./, '$10.');
+};
+
+const parseDate = (text: string): string | null => {
+  const match = text.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match || Number(match[1]) === 0) {
+    return null;
+  }
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return date.getUTCMonth() === Number(month) - 1 && date.getUTCDate() === Number(day) ? `${year}-${month}-${day}` : null;
+};
+
+const parseLogical = (text: string): boolean | null => {
+  const flag = text.toUpperCase();
+  if (flag === 'T' || flag === 'Y') {
+    return true;
+  }
+  if (flag === 'F' || flag === 'N') {
+    return false;
+  }
+  return null; // '?' or blank
+};
+
+const readValue = (view: DataView, bytes: Uint8Array, offset: number, field: DbfField, decoder: TextDecoder): unknown => {
+  if (field.type === 'O' && field.length === 8) {
+    return view.getFloat64(offset, true);
+  }
+
+  const text = decoder.decode(bytes.subarray(offset, offset + field.length)).replace(/\0/g, '').trim();
+  if (!text) {
+    return null;
+  }
+
+  switch (field.type) {
+    case 'N':
+    case 'F':
+      return parseNumber(text, field);
+    case 'D':
+      return parseDate(text);
+    case 'L':
+      return parseLogical(text);
+    default:
+      return text;
+  }
+};
+
+// Deleted records are kept so attributes stay aligned with the .shp geometries
+export const readDbf = (buffer: ArrayBuffer, cpg?: string): DbfTable => {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  const decoder = createDecoder(cpg);
+
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  const fields = readFields(view, bytes, headerLength, decoder);
+
+  const records: Record<string, unknown>[] = [];
+  for (let index = 0; index < recordCount; index++) {
+    let offset = headerLength + index * recordLength + 1; // Skip the deletion flag
+    if (offset + recordLength - 1 > bytes.length) {
+      break;
+    }
+    const record: Record<string, unknown> = {};
+    fields.forEach((field) => {
+      record[field.name] = readValue(view, bytes, offset, field, decoder);
+      offset += field.length;
+    });
+    records.push(record);
+  }
+
+  return { fields, records };
+};
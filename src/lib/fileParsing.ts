@@ -0,0 +1,400 @@
+import { ColumnCoercionReport, ColumnInferenceSummary, ColumnMapping, FilePreview, FileProcessingOptions, GeoJSONFeature, GeoJSONGeometry, GeometryValidationReport, SchemaField } from '@/types';
+import { extractKmlFromKmz, parseKml } from '@/lib/kml';
+import { parseJsonDocuments, toGeoJsonFeatures } from '@/lib/geojson';
+import { detectGeometrySource, parseCsv, readCsvGeometry, sniffDelimiter, uniqueHeaders } from '@/lib/csv';
+import { readShapefileLayers } from '@/lib/shapefile';
+import { dbfFieldToSchemaType } from '@/lib/dbf';
+import { readGeoPackageLayer, resolveGeoPackageCrs } from '@/lib/geopackage';
+import { reprojectFeatures, resolveSourceCrs } from '@/lib/projection';
+import { orientPolygons, validateFeatures } from '@/lib/geometryValidation';
+import { conformRecords, inferSchema } from '@/lib/schemaInference';
+import { coerceColumns } from '@/lib/coercion';
+import { buildColumnMapping, collectColumnNames, renameColumns } from '@/lib/columnNames';
+
+// Converts an uploaded file into NDJSON load records. Runs inside the processing worker,
+// except for KML which needs DOMParser and is converted on the main thread.
+
+export interface ConvertedFile {
+  recordCount: number;
+  schema: SchemaField[];
+  sourceCrs?: string;
+  layerName?: string;
+  geometryValidation?: GeometryValidationReport;
+  coercion?: ColumnCoercionReport[];
+  columnMapping: ColumnMapping[];
+  schemaInference: ColumnInferenceSummary[];
+  rowOffsets?: number[]; // Byte offset where each NDJSON row starts
+}
+
+interface ConversionCallbacks {
+  onBatch: (ndjson: string) => void;
+  onProgress?: (fraction: number) => void; // 0..1 over parsing and serialization
+}
+
+interface PreparedRecords extends Omit<ConvertedFile, 'recordCount'> {
+  records: Record<string, unknown>[];
+}
+
+interface ParsedRecords {
+  records: Record<string, unknown>[];
+  fieldTypes?: Record<string, SchemaField['type']>; // Declared source types, keyed by source column name
+  sourceCrs?: string;
+  layerName?: string;
+  geometryValidation?: GeometryValidationReport;
+}
+
+const BATCH_SIZE = 5000;
+const PREVIEW_FEATURE_LIMIT = 1000; // Drawn on the preview map
+const PREVIEW_RECORD_LIMIT = 5000; // Shown in the preview table
+
+const textDecoder = new TextDecoder();
+
+export const isKmlFile = (fileName: string) => fileName.endsWith('.kml') || fileName.endsWith('.kmz');
+
+const GEOMETRY_COLUMN = 'geometry';
+
+// Flattens a GeoJSON feature into its properties plus a GEOGRAPHY-ready geometry string, with polygon
+// rings in right-hand-rule order. A property that is itself called geometry is kept as properties.geometry.
+const featureToRecord = (feature: GeoJSONFeature): Record<string, unknown> => {
+  const { [GEOMETRY_COLUMN]: geometryProperty, ...properties } = feature.properties || {};
+  if (geometryProperty !== undefined) {
+    properties[`properties.${GEOMETRY_COLUMN}`] = geometryProperty;
+  }
+
+  if (!feature.geometry) {
+    return { ...properties, [GEOMETRY_COLUMN]: null };
+  }
+
+  const { bbox, ...restOfGeometry } = orientPolygons(feature.geometry) as GeoJSONFeature['geometry'] & {bbox?: number[];};
+  return { ...properties, [GEOMETRY_COLUMN]: JSON.stringify(restOfGeometry) };
+};
+
+// Validates geometries according to the job's policy before they become load records
+const featuresToRecords = (
+features: GeoJSONFeature[],
+options: FileProcessingOptions)
+: {records: Record<string, unknown>[];geometryValidation: GeometryValidationReport;} => {
+  const { features: validFeatures, report } = validateFeatures(features, options.geometryPolicy || 'repair');
+  if (report.invalid > 0) {
+    console.warn(`⚠️ ${report.invalid} invalid geometries: ${report.repaired} repaired, ${report.dropped} dropped`);
+  }
+  return {
+    records: validFeatures.map(featureToRecord),
+    geometryValidation: report
+  };
+};
+
+const parseZip = async (content: ArrayBuffer, options: FileProcessingOptions): Promise<ParsedRecords> => {
+  const layers = await readShapefileLayers(content, options.layerName ? [options.layerName] : undefined);
+  if (layers.length > 1) {
+    throw new Error(`ZIP contains ${layers.length} shapefile layers (${layers.map((l) => l.name).join(', ')}); a layer must be selected`);
+  }
+  const [layer] = layers;
+  console.log('🗂️ Shapefile layer:', layer.name, `(${layer.features.length} features)`);
+
+  // BigQuery GEOGRAPHY needs WGS84 lon/lat, so projected layers are transformed here
+  const sourceCrs = resolveSourceCrs(layer.prj, options.sourceCrs);
+  console.log('🌐 Source CRS:', sourceCrs.label, sourceCrs.isWgs84 ? '(no reprojection needed)' : '→ EPSG:4326');
+  const features = reprojectFeatures(layer.features, sourceCrs);
+
+  const fieldTypes: Record<string, SchemaField['type']> = {};
+  layer.fields.forEach((field) => {
+    fieldTypes[field.name] = dbfFieldToSchemaType(field);
+  });
+
+  return {
+    ...featuresToRecords(features, options),
+    fieldTypes,
+    sourceCrs: sourceCrs.label,
+    layerName: layer.name
+  };
+};
+
+const parseGeoPackage = async (content: ArrayBuffer, options: FileProcessingOptions): Promise<ParsedRecords> => {
+  const layer = await readGeoPackageLayer(content, options.layerName);
+  console.log('🗂️ GeoPackage table:', layer.name, `(${layer.features.length} features, srs_id ${layer.srs.srsId})`);
+
+  const sourceCrs = resolveGeoPackageCrs(layer.srs, options.sourceCrs);
+  console.log('🌐 Source CRS:', sourceCrs.label, sourceCrs.isWgs84 ? '(no reprojection needed)' : '→ EPSG:4326');
+  const features = reprojectFeatures(layer.features, sourceCrs);
+
+  return {
+    ...featuresToRecords(features, options),
+    sourceCrs: sourceCrs.label,
+    layerName: layer.name
+  };
+};
+
+const parseJson = (content: ArrayBuffer, options: FileProcessingOptions): ParsedRecords => {
+  const documents = parseJsonDocuments(textDecoder.decode(content));
+
+  // GeoJSON documents are flattened into features, anything else is loaded as-is
+  const features: GeoJSONFeature[] = [];
+  const plainRecords: Record<string, unknown>[] = [];
+  documents.forEach((document) => {
+    const documentFeatures = toGeoJsonFeatures(document);
+    if (documentFeatures) {
+      features.push(...documentFeatures);
+    } else {
+      plainRecords.push(document as Record<string, unknown>);
+    }
+  });
+
+  const { records: featureRecords, geometryValidation } = featuresToRecords(features, options);
+  const records = [...featureRecords, ...plainRecords];
+  if (records.length === 0) {
+    throw new Error('JSON file does not contain any records');
+  }
+
+  return {
+    records,
+    geometryValidation: features.length > 0 ? geometryValidation : undefined
+  };
+};
+
+const parseDelimited = (content: ArrayBuffer, options: FileProcessingOptions): ParsedRecords => {
+  const text = textDecoder.decode(content);
+  const delimiter = sniffDelimiter(text);
+  const rows = parseCsv(text, delimiter);
+
+  if (rows.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  const headers = uniqueHeaders(rows[0].map((h, index) => h.trim() || `column_${index + 1}`));
+  const rawRecords = rows.slice(1).map((values) => {
+    const record: Record<string, string | null> = {};
+    headers.forEach((header, index) => {
+      const value = values[index];
+      record[header] = value === undefined || value === '' ? null : value;
+    });
+    return record;
+  });
+
+  const geometrySource = detectGeometrySource(headers, rawRecords);
+  console.log('📍 CSV geometry source:', geometrySource, 'delimiter:', JSON.stringify(delimiter));
+
+  if (geometrySource.kind === 'none') {
+    return { records: rawRecords };
+  }
+
+  const features = rawRecords.map((rawRecord, index): GeoJSONFeature => {
+    let geometry;
+    try {
+      geometry = readCsvGeometry(rawRecord, geometrySource);
+    } catch (error) {
+      throw new Error(`Invalid geometry on CSV row ${index + 2}: ${error.message}`);
+    }
+
+    const properties: Record<string, unknown> = { ...rawRecord };
+    // WKT/WKB source columns are replaced by the GEOGRAPHY column, lat/lon columns are kept
+    if (geometrySource.kind === 'wkt' || geometrySource.kind === 'wkb') {
+      delete properties[geometrySource.column];
+    }
+    return { type: 'Feature', geometry, properties };
+  });
+
+  return featuresToRecords(features, options);
+};
+
+const parseKmlContent = async (fileName: string, content: ArrayBuffer, options: FileProcessingOptions): Promise<ParsedRecords> => {
+  const kml = fileName.endsWith('.kmz') ? await extractKmlFromKmz(content) : textDecoder.decode(content);
+  const features = parseKml(kml);
+  if (features.length === 0) {
+    throw new Error('KML file does not contain any Placemarks');
+  }
+  return featuresToRecords(features, options);
+};
+
+const parseRecords = async (fileName: string, content: ArrayBuffer, options: FileProcessingOptions): Promise<ParsedRecords> => {
+  if (fileName.endsWith('.zip')) {
+    return parseZip(content, options);
+  } else if (fileName.endsWith('.gpkg')) {
+    return parseGeoPackage(content, options);
+  } else if (/\.(geojsonl?|ndjson|json)$/.test(fileName)) {
+    return parseJson(content, options);
+  } else if (/\.(csv|tsv|txt)$/.test(fileName)) {
+    return parseDelimited(content, options);
+  } else if (isKmlFile(fileName)) {
+    return parseKmlContent(fileName, content, options);
+  }
+  throw new Error(`Unsupported file type: ${fileName}`);
+};
+
+// Parses the file and turns its records into what will be loaded: coerced, renamed and
+// conformed to the inferred schema
+const prepareRecords = async (fileName: string, content: ArrayBuffer, options: FileProcessingOptions): Promise<PreparedRecords> => {
+  const parsed = await parseRecords(fileName, content, options);
+
+  // Type overrides use source column names and are applied before renaming and inference,
+  // so the schema matches the coerced values. Overrides win over declared DBF types.
+  const columnTypes = options.columnTypes || [];
+  const coercion = columnTypes.length > 0 ? coerceColumns(parsed.records, columnTypes) : undefined;
+
+  const columnNameStyle = options.columnNameStyle || 'snake_case';
+  const columnMapping = buildColumnMapping(collectColumnNames(parsed.records), columnNameStyle, [GEOMETRY_COLUMN]);
+  const records = renameColumns(parsed.records, columnMapping, columnNameStyle);
+
+  const sourceName = (name: string) => columnMapping.find((mapping) => mapping.final === name)?.original ?? name;
+  const resolveType = (original: string): Pick<ColumnInferenceSummary, 'type' | 'source'> | undefined => {
+    const override = columnTypes.find((columnType) => columnType.column === original);
+    if (override) {
+      return { type: override.type, source: 'override' };
+    }
+    const declared = parsed.fieldTypes?.[original];
+    return declared ? { type: declared, source: 'declared' } : undefined;
+  };
+
+  // Declared and overridden types are not guesses, their values were converted to fit
+  const inference = inferSchema(records, { sampleSize: options.schemaSampleSize });
+  const schemaInference = inference.columns.map((summary) => {
+    const resolved = resolveType(sourceName(summary.column));
+    return resolved ? { ...summary, ...resolved, confidence: 1, conflict: false } : summary;
+  });
+  const schema = inference.schema.map((field, index) => {
+    const original = sourceName(field.name);
+    const { type } = schemaInference[index];
+    return {
+      ...field,
+      type,
+      fields: type === 'RECORD' ? field.fields : undefined,
+      description: original !== field.name ? `Source column: ${original}` : field.description
+    };
+  });
+  conformRecords(records, schema);
+
+  return {
+    records,
+    schema,
+    sourceCrs: parsed.sourceCrs,
+    layerName: parsed.layerName,
+    geometryValidation: parsed.geometryValidation,
+    coercion,
+    columnMapping,
+    schemaInference
+  };
+};
+
+// Byte length of the string once UTF-8 encoded, without encoding it
+const utf8Length = (text: string): number => {
+  let length = 0;
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) {
+      length += 1;
+    } else if (code < 0x800) {
+      length += 2;
+    } else if (code >= 0xd800 && code <= 0xdbff) {
+      // A surrogate pair is one four-byte character
+      length += 4;
+      i++;
+    } else {
+      length += 3;
+    }
+  }
+  return length;
+};
+
+// Parses the file, then serializes records in batches so the NDJSON never exists as one string
+export const convertFileToNdjson = async (
+fileName: string,
+content: ArrayBuffer,
+options: FileProcessingOptions,
+{ onBatch, onProgress }: ConversionCallbacks)
+: Promise<ConvertedFile> => {
+  const { records, ...converted } = await prepareRecords(fileName, content, options);
+  onProgress?.(0.5);
+
+  const rowOffsets: number[] = [];
+  let offset = 0;
+  for (let start = 0; start < records.length; start += BATCH_SIZE) {
+    const rows = records.slice(start, start + BATCH_SIZE).map((record) => {
+      const row = JSON.stringify(record);
+      rowOffsets.push(offset);
+      offset += utf8Length(row) + 1;
+      return row;
+    });
+    const separator = start + BATCH_SIZE < records.length ? '\n' : '';
+    onBatch(rows.join('\n') + separator);
+    onProgress?.(0.5 + 0.5 * Math.min(start + BATCH_SIZE, records.length) / records.length);
+  }
+
+  return { recordCount: records.length, ...converted, rowOffsets };
+};
+
+const extendBbox = (bbox: [number, number, number, number] | undefined, coordinates: unknown): [number, number, number, number] | undefined => {
+  if (!Array.isArray(coordinates)) {
+    return bbox;
+  }
+  if (typeof coordinates[0] === 'number') {
+    const [lon, lat] = coordinates as number[];
+    return bbox ?
+    [Math.min(bbox[0], lon), Math.min(bbox[1], lat), Math.max(bbox[2], lon), Math.max(bbox[3], lat)] :
+    [lon, lat, lon, lat];
+  }
+  return coordinates.reduce((result, child) => extendBbox(result, child), bbox);
+};
+
+const geometryBbox = (geometry: GeoJSONGeometry, bbox?: [number, number, number, number]): [number, number, number, number] | undefined =>
+geometry.type === 'GeometryCollection' ?
+(geometry.geometries || []).reduce((result, child) => geometryBbox(child, result), bbox) :
+extendBbox(bbox, geometry.coordinates);
+
+// Parses and prepares the file like a load, then summarizes it instead of serializing.
+// Geometry types and the bounding box cover every record, features and rows only the first ones.
+export const previewFileRecords = async (
+fileName: string,
+content: ArrayBuffer,
+options: FileProcessingOptions)
+: Promise<FilePreview> => {
+  const { records, schema, schemaInference, columnMapping, sourceCrs, layerName, geometryValidation } = await prepareRecords(fileName, content, options);
+  const geographyColumn = schema.find((field) => field.type === 'GEOGRAPHY')?.name;
+
+  const geometryTypes: Record<string, number> = {};
+  const features: GeoJSONFeature[] = [];
+  let bbox: [number, number, number, number] | undefined;
+
+  records.forEach((record) => {
+    const value = geographyColumn ? record[geographyColumn] : null;
+    if (typeof value !== 'string') {
+      return;
+    }
+    const geometry = JSON.parse(value) as GeoJSONGeometry;
+    geometryTypes[geometry.type] = (geometryTypes[geometry.type] || 0) + 1;
+    bbox = geometryBbox(geometry, bbox);
+
+    if (features.length < PREVIEW_FEATURE_LIMIT) {
+      const properties = { ...record };
+      delete properties[geographyColumn as string];
+      features.push({ type: 'Feature', geometry, properties });
+    }
+  });
+
+  return {
+    recordCount: records.length,
+    schema,
+    schemaInference,
+    geometryTypes,
+    bbox,
+    features,
+    records: records.slice(0, PREVIEW_RECORD_LIMIT),
+    columnMapping,
+    sourceCrs,
+    layerName,
+    geometryValidation
+  };
+};
+
+// Messages exchanged with src/workers/fileProcessing.worker.ts
+export interface FileWorkerRequest {
+  file: File;
+  options: FileProcessingOptions;
+  mode: 'convert' | 'preview';
+}
+
+export type FileWorkerMessage =
+{type: 'progress';progress: number;} | // 0..1, reading is measured in bytes
+{type: 'batch';part: Blob;} |
+{type: 'done';result: ConvertedFile;} |
+{type: 'preview';preview: FilePreview;} |
+{type: 'error';message: string;};
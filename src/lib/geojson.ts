@@ -0,0 +1,82 @@
+import { GeoJSONFeature, GeoJSONGeometry } from '@/types';
+
+// GeoJSON, GeoJSONSeq and NDJSON reader producing GeoJSON features for the NDJSON pipeline
+
+const GEOMETRY_TYPES: GeoJSONGeometry['type'][] = [
+'Point',
+'MultiPoint',
+'LineString',
+'MultiLineString',
+'Polygon',
+'MultiPolygon',
+'GeometryCollection'];
+
+const RECORD_SEPARATOR = '\u001e';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isGeoJsonGeometry = (value: unknown): value is GeoJSONGeometry =>
+isObject(value) && GEOMETRY_TYPES.includes(value.type as GeoJSONGeometry['type']);
+
+const isGeoJsonFeature = (value: unknown): value is GeoJSONFeature =>
+isObject(value) && value.type === 'Feature';
+
+const isGeoJsonFeatureCollection = (value: unknown): value is {type: 'FeatureCollection';features: unknown[];} =>
+isObject(value) && value.type === 'FeatureCollection' && Array.isArray(value.features);
+
+const normalizeFeature = (feature: GeoJSONFeature): GeoJSONFeature => ({
+  type: 'Feature',
+  geometry: isGeoJsonGeometry(feature.geometry) ? feature.geometry : null,
+  properties: {
+    // Top-level feature ids are kept alongside the attributes
+    ...(feature.id !== undefined && feature.id !== null ? { id: feature.id } : {}),
+    ...(isObject(feature.properties) ? feature.properties : {})
+  }
+});
+
+// Returns the features of a GeoJSON value, or null when the value is not GeoJSON
+export const toGeoJsonFeatures = (value: unknown): GeoJSONFeature[] | null => {
+  if (isGeoJsonFeatureCollection(value)) {
+    return value.features.flatMap((feature) => toGeoJsonFeatures(feature) || []);
+  }
+  if (isGeoJsonFeature(value)) {
+    return [normalizeFeature(value)];
+  }
+  if (isGeoJsonGeometry(value)) {
+    return [{ type: 'Feature', geometry: value, properties: {} }];
+  }
+  return null;
+};
+
+// Parses a single JSON document, falling back to one document per line
+// for GeoJSONSeq (RFC 8142, record separator prefixed) and NDJSON input
+export const parseJsonDocuments = (text: string): unknown[] => {
+  const content = text.replace(/^\uFEFF/, '');
+
+  try {
+    const data = JSON.parse(content);
+    return Array.isArray(data) ? data : [data];
+  } catch {
+    // Not a single document, try line-delimited
+  }
+
+  const lines = content.
+  split(RECORD_SEPARATOR).
+  join('\n').
+  split(/\r?\n/).
+  map((line) => line.trim()).
+  filter((line) => line.length > 0);
+
+  if (lines.length < 2 && !content.includes(RECORD_SEPARATOR)) {
+    throw new Error('Invalid JSON format');
+  }
+
+  return lines.map((line, index) => {
+    try {
+      return JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${index + 1}`);
+    }
+  });
+};
@@ -0,0 +1,320 @@
+import polygonClipping, { MultiPolygon as ClipMultiPolygon } from 'polygon-clipping';
+import { GeoJSONFeature, GeoJSONGeometry, GeometryPolicy, GeometryValidationReport } from '@/types';
+
+// Geometry checks for the problems BigQuery rejects on load, plus a best-effort repair
+
+type Position = number[];
+type Ring = Position[];
+
+const MAX_REPORTED_ISSUES = 100;
+
+const samePosition = (a: Position, b: Position) => a[0] === b[0] && a[1] === b[1];
+
+const isFinitePosition = (position: Position) =>
+Array.isArray(position) && Number.isFinite(position[0]) && Number.isFinite(position[1]);
+
+const hasConsecutiveDuplicates = (positions: Position[]) =>
+positions.some((position, i) => i > 0 && samePosition(position, positions[i - 1]));
+
+// Shoelace formula: positive for counter-clockwise rings
+const signedArea = (ring: Ring) => {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+};
+
+const orientation = (a: Position, b: Position, c: Position) => {
+  const value = (b[1] - a[1]) * (c[0] - b[0]) - (b[0] - a[0]) * (c[1] - b[1]);
+  return value === 0 ? 0 : value > 0 ? 1 : 2;
+};
+
+const onSegment = (a: Position, b: Position, c: Position) =>
+b[0] <= Math.max(a[0], c[0]) && b[0] >= Math.min(a[0], c[0]) &&
+b[1] <= Math.max(a[1], c[1]) && b[1] >= Math.min(a[1], c[1]);
+
+const segmentsIntersect = (p1: Position, q1: Position, p2: Position, q2: Position) => {
+  const o1 = orientation(p1, q1, p2);
+  const o2 = orientation(p1, q1, q2);
+  const o3 = orientation(p2, q2, p1);
+  const o4 = orientation(p2, q2, q1);
+
+  if (o1 !== o2 && o3 !== o4) {
+    return true;
+  }
+  return o1 === 0 && onSegment(p1, p2, q1) ||
+  o2 === 0 && onSegment(p1, q2, q1) ||
+  o3 === 0 && onSegment(p2, p1, q2) ||
+  o4 === 0 && onSegment(p2, q1, q2);
+};
+
+// Sweeps segments sorted by their minimum x so only overlapping spans are compared
+const isSelfIntersecting = (ring: Ring): boolean => {
+  const segmentCount = ring.length - 1;
+  if (segmentCount < 4) {
+    return false;
+  }
+
+  const segments = Array.from({ length: segmentCount }, (_, i) => ({
+    index: i,
+    minX: Math.min(ring[i][0], ring[i + 1][0]),
+    maxX: Math.max(ring[i][0], ring[i + 1][0])
+  })).sort((a, b) => a.minX - b.minX);
+
+  for (let i = 0; i < segments.length; i++) {
+    for (let j = i + 1; j < segments.length && segments[j].minX <= segments[i].maxX; j++) {
+      const a = segments[i].index;
+      const b = segments[j].index;
+      const gap = Math.abs(a - b);
+      // Neighbouring segments share a vertex, including the closing pair
+      if (gap === 1 || gap === segmentCount - 1) {
+        continue;
+      }
+      if (segmentsIntersect(ring[a], ring[a + 1], ring[b], ring[b + 1])) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
+// Ring direction isn't checked: shapefiles store exterior rings clockwise, and orientPolygons
+// sets the right-hand-rule order when the geometry is serialized
+const ringProblems = (ring: Ring): string[] => {
+  const problems: string[] = [];
+  if (!ring.every(isFinitePosition)) {
+    return ['non-finite coordinate'];
+  }
+  if (ring.length > 0 && !samePosition(ring[0], ring[ring.length - 1])) {
+    problems.push('unclosed ring');
+  }
+  if (hasConsecutiveDuplicates(ring)) {
+    problems.push('duplicate vertices');
+  }
+  if (ring.length < 4) {
+    problems.push('ring has fewer than 4 positions');
+    return problems;
+  }
+  // The segment test assumes a closed ring without zero-length segments
+  const isWellFormed = !problems.includes('unclosed ring') && !problems.includes('duplicate vertices');
+  if (isWellFormed && isSelfIntersecting(ring)) {
+    problems.push('self-intersection');
+  }
+  return problems;
+};
+
+const polygonProblems = (rings: Ring[]): string[] => {
+  if (!Array.isArray(rings) || rings.length === 0) {
+    return ['polygon has no rings'];
+  }
+  return rings.flatMap(ringProblems);
+};
+
+const lineProblems = (positions: Position[]): string[] => {
+  if (!positions.every(isFinitePosition)) {
+    return ['non-finite coordinate'];
+  }
+  const problems: string[] = [];
+  if (hasConsecutiveDuplicates(positions)) {
+    problems.push('duplicate vertices');
+  }
+  const distinct = positions.filter((position, i) => i === 0 || !samePosition(position, positions[i - 1]));
+  if (distinct.length < 2) {
+    problems.push('line has fewer than 2 distinct positions');
+  }
+  return problems;
+};
+
+export const validateGeometry = (geometry: GeoJSONGeometry): string[] => {
+  const coordinates = geometry.coordinates as unknown;
+  let problems: string[];
+
+  switch (geometry.type) {
+    case 'Point':
+      problems = isFinitePosition(coordinates as Position) ? [] : ['non-finite coordinate'];
+      break;
+    case 'MultiPoint':
+      problems = (coordinates as Position[]).every(isFinitePosition) ? [] : ['non-finite coordinate'];
+      break;
+    case 'LineString':
+      problems = lineProblems(coordinates as Position[]);
+      break;
+    case 'MultiLineString':
+      problems = (coordinates as Position[][]).flatMap(lineProblems);
+      break;
+    case 'Polygon':
+      problems = polygonProblems(coordinates as Ring[]);
+      break;
+    case 'MultiPolygon':
+      problems = (coordinates as Ring[][]).flatMap(polygonProblems);
+      break;
+    case 'GeometryCollection':
+      problems = geometry.geometries.flatMap(validateGeometry);
+      break;
+    default:
+      problems = [`unsupported geometry type ${geometry.type}`];
+  }
+
+  return Array.from(new Set(problems));
+};
+
+const cleanPositions = (positions: Position[]): Position[] =>
+positions.
+filter(isFinitePosition).
+map((position) => [position[0], position[1]]).
+filter((position, i, all) => i === 0 || !samePosition(position, all[i - 1]));
+
+const closeRing = (ring: Ring): Ring => {
+  const cleaned = cleanPositions(ring);
+  if (cleaned.length > 0 && !samePosition(cleaned[0], cleaned[cleaned.length - 1])) {
+    cleaned.push([...cleaned[0]]);
+  }
+  return cleaned;
+};
+
+const orientRing = (ring: Ring, counterClockwise: boolean): Ring =>
+signedArea(ring) > 0 === counterClockwise ? ring : [...ring].reverse();
+
+const orientPolygonRings = (rings: Ring[]): Ring[] =>
+rings.map((ring, i) => ring.length >= 4 ? orientRing(ring, i === 0) : ring);
+
+// Puts polygon rings in right-hand-rule order, exterior rings counter-clockwise and holes clockwise.
+// Either order is valid, so this isn't counted as a repair.
+export const orientPolygons = (geometry: GeoJSONGeometry): GeoJSONGeometry => {
+  switch (geometry.type) {
+    case 'Polygon':
+      return { ...geometry, coordinates: orientPolygonRings(geometry.coordinates as Ring[]) };
+    case 'MultiPolygon':
+      return { ...geometry, coordinates: (geometry.coordinates as Ring[][]).map(orientPolygonRings) };
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map(orientPolygons) };
+    default:
+      return geometry;
+  }
+};
+
+// Ring closing, duplicate removal and right-hand-rule orientation
+const repairPolygonRings = (rings: Ring[]): Ring[] | null => {
+  const [exterior, ...holes] = rings.map(closeRing);
+  // A collapsed exterior leaves nothing to repair; collapsed holes are simply removed
+  if (!exterior || exterior.length < 4) {
+    return null;
+  }
+  return [
+  orientRing(exterior, true),
+  ...holes.filter((ring) => ring.length >= 4).map((ring) => orientRing(ring, false))];
+
+};
+
+// Make-valid style repair: a self-union resolves self-intersections and overlapping
+// parts into a valid (Multi)Polygon, the same effect as a zero-width buffer
+const makeValidPolygons = (polygons: Ring[][]): GeoJSONGeometry | null => {
+  let result: ClipMultiPolygon;
+  try {
+    result = polygonClipping.union(polygons as ClipMultiPolygon);
+  } catch {
+    return null;
+  }
+  if (result.length === 0) {
+    return null;
+  }
+  return result.length === 1 ?
+  { type: 'Polygon', coordinates: result[0] } :
+  { type: 'MultiPolygon', coordinates: result };
+};
+
+export const repairGeometry = (geometry: GeoJSONGeometry): GeoJSONGeometry | null => {
+  switch (geometry.type) {
+    case 'Point':
+      return isFinitePosition(geometry.coordinates as Position) ? geometry : null;
+    case 'MultiPoint':{
+        const points = (geometry.coordinates as Position[]).filter(isFinitePosition);
+        return points.length > 0 ? { type: 'MultiPoint', coordinates: points } : null;
+      }
+    case 'LineString':{
+        const positions = cleanPositions(geometry.coordinates as Position[]);
+        return positions.length >= 2 ? { type: 'LineString', coordinates: positions } : null;
+      }
+    case 'MultiLineString':{
+        const lines = (geometry.coordinates as Position[][]).map(cleanPositions).filter((line) => line.length >= 2);
+        return lines.length > 0 ? { type: 'MultiLineString', coordinates: lines } : null;
+      }
+    case 'Polygon':
+    case 'MultiPolygon':{
+        const polygons = geometry.type === 'Polygon' ?
+        [geometry.coordinates as Ring[]] :
+        geometry.coordinates as Ring[][];
+        const repaired = polygons.map(repairPolygonRings).filter(Boolean);
+        if (repaired.length === 0) {
+          return null;
+        }
+        const candidate: GeoJSONGeometry = repaired.length === 1 ?
+        { type: 'Polygon', coordinates: repaired[0] } :
+        { type: 'MultiPolygon', coordinates: repaired };
+        return validateGeometry(candidate).length === 0 ? candidate : makeValidPolygons(repaired);
+      }
+    case 'GeometryCollection':{
+        const geometries = geometry.geometries.map(repairGeometry).filter(Boolean);
+        return geometries.length > 0 ? { type: 'GeometryCollection', geometries } : null;
+      }
+    default:
+      return null;
+  }
+};
+
+// Applies the job's geometry policy to every feature. 'fail' throws on the first
+// invalid batch, 'drop' removes invalid features and 'repair' fixes what it can
+// and drops the rest. Features without geometry are passed through untouched.
+export const validateFeatures = (
+features: GeoJSONFeature[],
+policy: GeometryPolicy)
+: {features: GeoJSONFeature[];report: GeometryValidationReport;} => {
+  const report: GeometryValidationReport = {
+    policy,
+    checked: 0,
+    invalid: 0,
+    repaired: 0,
+    dropped: 0,
+    repairedFeatureIndexes: [],
+    droppedFeatureIndexes: [],
+    issues: []
+  };
+  const output: GeoJSONFeature[] = [];
+
+  features.forEach((feature, index) => {
+    if (!feature.geometry) {
+      output.push(feature);
+      return;
+    }
+
+    report.checked++;
+    const problems = validateGeometry(feature.geometry);
+    if (problems.length === 0) {
+      output.push(feature);
+      return;
+    }
+
+    report.invalid++;
+    if (report.issues.length < MAX_REPORTED_ISSUES) {
+      report.issues.push({ featureIndex: index, problems });
+    }
+
+    const repaired = policy === 'repair' ? repairGeometry(feature.geometry) : null;
+    if (repaired && validateGeometry(repaired).length === 0) {
+      report.repaired++;
+      report.repairedFeatureIndexes.push(index);
+      output.push({ ...feature, geometry: repaired });
+    } else {
+      report.dropped++;
+      report.droppedFeatureIndexes.push(index);
+    }
+  });
+
+  if (policy === 'fail' && report.invalid > 0) {
+    const examples = report.issues.slice(0, 5).map((issue) => `#${issue.featureIndex}: ${issue.problems.join(', ')}`);
+    throw new Error(`${report.invalid} of ${report.checked} geometries are invalid (${examples.join('; ')})`);
+  }
+
+  return { features: output, report };
+};
@@ -0,0 +1,192 @@
+import initSqlJs, { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import sqlWasmUrl from 'sql.js/dist/sql-wasm-browser.wasm?url';
+import { GeoJSONFeature, GeoJSONGeometry } from '@/types';
+import { parseWkb } from '@/lib/wkb';
+import { resolveCrsOverride, resolveSourceCrs, SourceCrs } from '@/lib/projection';
+
+// GeoPackage reader: opens the SQLite file with sql.js and decodes GPKG geometry blobs
+
+export interface GeoPackageLayer {
+  name: string;
+  features: GeoJSONFeature[];
+  srs: GeoPackageSrs;
+}
+
+export interface GeoPackageSrs {
+  srsId: number;
+  organization?: string;
+  organizationCode?: number;
+  definition?: string;
+}
+
+// Envelope byte lengths indexed by the envelope indicator in the header flags
+const ENVELOPE_SIZES = [0, 32, 48, 48, 64];
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+const loadSqlJs = () => {
+  if (!sqlJs) {
+    sqlJs = initSqlJs({ locateFile: () => sqlWasmUrl });
+  }
+  return sqlJs;
+};
+
+const openDatabase = async (buffer: ArrayBuffer): Promise<Database> => {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(new Uint8Array(buffer));
+
+  const [contents] = db.exec("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'gpkg_contents'");
+  if (!contents) {
+    db.close();
+    throw new Error('File is not a GeoPackage (gpkg_contents table missing)');
+  }
+  return db;
+};
+
+const quoteIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+};
+
+export const decodeGeoPackageGeometry = (blob: Uint8Array): GeoJSONGeometry | null => {
+  if (blob.length < 8 || blob[0] !== 0x47 || blob[1] !== 0x50) {
+    throw new Error('Invalid GeoPackage geometry header');
+  }
+
+  const flags = blob[3];
+  const isEmpty = (flags & 0x10) !== 0;
+  const envelopeIndicator = flags >> 1 & 0x07;
+  if (envelopeIndicator >= ENVELOPE_SIZES.length) {
+    throw new Error(`Invalid GeoPackage envelope indicator: ${envelopeIndicator}`);
+  }
+  if (isEmpty) {
+    return null;
+  }
+
+  return parseWkb(blob, 8 + ENVELOPE_SIZES[envelopeIndicator]);
+};
+
+const listFeatureTables = (db: Database): string[] => {
+  const [result] = db.exec("SELECT table_name FROM gpkg_contents WHERE data_type = 'features' ORDER BY table_name");
+  return result ? result.values.map(([tableName]) => String(tableName)) : [];
+};
+
+const readSrs = (db: Database, srsId: number): GeoPackageSrs => {
+  const statement = db.prepare(
+    'SELECT organization, organization_coordsys_id, definition FROM gpkg_spatial_ref_sys WHERE srs_id = ?'
+  );
+  try {
+    statement.bind([srsId]);
+    if (!statement.step()) {
+      return { srsId };
+    }
+    const [organization, organizationCode, definition] = statement.get();
+    return {
+      srsId,
+      organization: organization ? String(organization) : undefined,
+      organizationCode: typeof organizationCode === 'number' ? organizationCode : undefined,
+      definition: definition && definition !== 'undefined' ? String(definition) : undefined
+    };
+  } finally {
+    statement.free();
+  }
+};
+
+const readLayer = (db: Database, tableName: string): GeoPackageLayer => {
+  const [geometryColumns] = db.exec(
+    'SELECT column_name, srs_id FROM gpkg_geometry_columns WHERE table_name = ?',
+    [tableName]
+  );
+  if (!geometryColumns || geometryColumns.values.length === 0) {
+    throw new Error(`No geometry column registered for GeoPackage table ${tableName}`);
+  }
+  const [geometryColumn, srsId] = geometryColumns.values[0];
+
+  const features: GeoJSONFeature[] = [];
+  const statement = db.prepare(`SELECT * FROM ${quoteIdentifier(tableName)}`);
+  try {
+    while (statement.step()) {
+      const row = statement.getAsObject();
+      const properties: Record<string, unknown> = {};
+      let geometry: GeoJSONGeometry | null = null;
+
+      Object.entries(row).forEach(([column, value]: [string, SqlValue]) => {
+        if (column === geometryColumn) {
+          try {
+            geometry = value instanceof Uint8Array ? decodeGeoPackageGeometry(value) : null;
+          } catch (error) {
+            throw new Error(`Invalid geometry in ${tableName}, feature ${features.length}: ${error.message}`);
+          }
+        } else {
+          // Non-geometry BLOBs are kept as base64, the way BigQuery expects BYTES in JSON
+          properties[column] = value instanceof Uint8Array ? toBase64(value) : value;
+        }
+      });
+
+      features.push({ type: 'Feature', geometry, properties });
+    }
+  } finally {
+    statement.free();
+  }
+
+  return { name: tableName, features, srs: readSrs(db, Number(srsId)) };
+};
+
+export const listGeoPackageLayers = async (buffer: ArrayBuffer): Promise<string[]> => {
+  const db = await openDatabase(buffer);
+  try {
+    return listFeatureTables(db);
+  } finally {
+    db.close();
+  }
+};
+
+// Reads the named feature table, or the only one when the GeoPackage has a single feature table
+export const readGeoPackageLayer = async (buffer: ArrayBuffer, layerName?: string): Promise<GeoPackageLayer> => {
+  const db = await openDatabase(buffer);
+  try {
+    const tables = listFeatureTables(db);
+    if (tables.length === 0) {
+      throw new Error('GeoPackage does not contain any feature tables');
+    }
+    if (!layerName && tables.length > 1) {
+      throw new Error(`GeoPackage contains ${tables.length} feature tables (${tables.join(', ')}); a layer must be selected`);
+    }
+    const tableName = layerName || tables[0];
+    if (!tables.includes(tableName)) {
+      throw new Error(`Layer not found in GeoPackage: ${tableName}`);
+    }
+    return readLayer(db, tableName);
+  } finally {
+    db.close();
+  }
+};
+
+// srs_id 0 and -1 are the spec's "undefined" geographic and cartesian systems, so the
+// user's override (or WGS84) applies; otherwise EPSG codes win over the stored WKT
+export const resolveGeoPackageCrs = (srs: GeoPackageSrs, override?: string): SourceCrs => {
+  if (srs.srsId <= 0) {
+    return resolveSourceCrs(undefined, override);
+  }
+  if (srs.organization?.toUpperCase() === 'EPSG' && srs.organizationCode) {
+    try {
+      return resolveCrsOverride(`EPSG:${srs.organizationCode}`);
+    } catch (error) {
+      if (!srs.definition) {
+        throw error;
+      }
+    }
+  }
+  if (srs.definition) {
+    return resolveCrsOverride(srs.definition);
+  }
+  if (override?.trim()) {
+    return resolveCrsOverride(override);
+  }
+  throw new Error(`GeoPackage srs_id ${srs.srsId} has no definition. Enter its EPSG code or WKT as the source CRS.`);
+};
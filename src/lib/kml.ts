@@ -0,0 +1,231 @@
+import JSZip from 'jszip';
+import { GeoJSONFeature, GeoJSONGeometry } from '@/types';
+
+// KML/KMZ reader producing GeoJSON features for the NDJSON pipeline
+
+type Position = number[];
+
+const GEOMETRY_TAGS = ['Point', 'LineString', 'LinearRing', 'Polygon', 'MultiGeometry'];
+
+// Children lookups ignore namespaces so KML 2.1/2.2 and gx: documents all work
+const childElements = (parent: Element, localName?: string): Element[] =>
+Array.from(parent.children).filter((child) => !localName || child.localName === localName);
+
+const firstChild = (parent: Element, localName: string): Element | undefined =>
+childElements(parent, localName)[0];
+
+const childText = (parent: Element, localName: string): string | undefined =>
+firstChild(parent, localName)?.textContent?.trim() || undefined;
+
+const parseCoordinates = (text: string | null | undefined): Position[] => {
+  if (!text) {
+    return [];
+  }
+
+  return text.
+  trim().
+  split(/\s+/).
+  map((tuple) => tuple.split(',').map(Number)).
+  filter((position) => position.length >= 2 && !isNaN(position[0]) && !isNaN(position[1])).
+  // BigQuery GEOGRAPHY is 2D, altitude is dropped
+  map(([lon, lat]) => [lon, lat]);
+};
+
+const parseRing = (boundary: Element | undefined): Position[] => {
+  const ring = boundary && firstChild(boundary, 'LinearRing');
+  return ring ? parseCoordinates(childText(ring, 'coordinates')) : [];
+};
+
+const parseGeometry = (element: Element): GeoJSONGeometry | null => {
+  switch (element.localName) {
+    case 'Point':{
+        const [position] = parseCoordinates(childText(element, 'coordinates'));
+        return position ? { type: 'Point', coordinates: position } : null;
+      }
+    case 'LineString':
+    case 'LinearRing':{
+        const positions = parseCoordinates(childText(element, 'coordinates'));
+        return positions.length >= 2 ? { type: 'LineString', coordinates: positions } : null;
+      }
+    case 'Polygon':{
+        const outer = parseRing(firstChild(element, 'outerBoundaryIs'));
+        if (outer.length < 4) {
+          return null;
+        }
+        const inner = childElements(element, 'innerBoundaryIs').
+        map(parseRing).
+        filter((ring) => ring.length >= 4);
+        return { type: 'Polygon', coordinates: [outer, ...inner] };
+      }
+    case 'MultiGeometry':
+      return parseMultiGeometry(element);
+    default:
+      return null;
+  }
+};
+
+const flattenGeometries = (geometry: GeoJSONGeometry): GeoJSONGeometry[] =>
+geometry.type === 'GeometryCollection' ? geometry.geometries.flatMap(flattenGeometries) : [geometry];
+
+// Homogeneous MultiGeometry becomes Multi*, anything else a GeometryCollection
+const parseMultiGeometry = (element: Element): GeoJSONGeometry | null => {
+  const parts = childElements(element).
+  filter((child) => GEOMETRY_TAGS.includes(child.localName)).
+  map(parseGeometry).
+  filter(Boolean).
+  flatMap(flattenGeometries);
+
+  if (parts.length === 0) {
+    return null;
+  }
+  if (parts.length === 1) {
+    return parts[0];
+  }
+
+  const types = new Set(parts.map((part) => part.type));
+  if (types.size === 1) {
+    const [type] = types;
+    if (type === 'Point' || type === 'LineString' || type === 'Polygon') {
+      return {
+        type: `Multi${type}` as GeoJSONGeometry['type'],
+        coordinates: parts.map((part) => part.coordinates)
+      };
+    }
+  }
+
+  return { type: 'GeometryCollection', geometries: parts };
+};
+
+const coerceSimpleValue = (value: string, type: string | undefined): unknown => {
+  switch (type) {
+    case 'int':
+    case 'uint':
+    case 'short':
+    case 'ushort':{
+        const parsed = parseInt(value, 10);
+        return isNaN(parsed) ? value : parsed;
+      }
+    case 'float':
+    case 'double':{
+        const parsed = parseFloat(value);
+        return isNaN(parsed) ? value : parsed;
+      }
+    case 'bool':
+      return value === '1' || value.toLowerCase() === 'true';
+    default:
+      return value;
+  }
+};
+
+// Maps Schema ids to their SimpleField name -> type declarations
+const parseSchemas = (doc: Document): Map<string, Map<string, string>> => {
+  const schemas = new Map<string, Map<string, string>>();
+  Array.from(doc.getElementsByTagNameNS('*', 'Schema')).forEach((schema) => {
+    const fields = new Map<string, string>();
+    childElements(schema, 'SimpleField').forEach((field) => {
+      const name = field.getAttribute('name');
+      if (name) {
+        fields.set(name, field.getAttribute('type') || 'string');
+      }
+    });
+    const id = schema.getAttribute('id') || schema.getAttribute('name');
+    if (id) {
+      schemas.set(id, fields);
+    }
+  });
+  return schemas;
+};
+
+const parseExtendedData = (
+placemark: Element,
+schemas: Map<string, Map<string, string>>)
+: Record<string, unknown> => {
+  const properties: Record<string, unknown> = {};
+  const extendedData = firstChild(placemark, 'ExtendedData');
+  if (!extendedData) {
+    return properties;
+  }
+
+  childElements(extendedData, 'Data').forEach((data) => {
+    const name = data.getAttribute('name');
+    if (name) {
+      properties[name] = childText(data, 'value') ?? null;
+    }
+  });
+
+  childElements(extendedData, 'SchemaData').forEach((schemaData) => {
+    const schemaUrl = (schemaData.getAttribute('schemaUrl') || '').replace(/^#/, '');
+    const fieldTypes = schemas.get(schemaUrl);
+    childElements(schemaData, 'SimpleData').forEach((simpleData) => {
+      const name = simpleData.getAttribute('name');
+      if (name) {
+        const value = simpleData.textContent?.trim() ?? '';
+        properties[name] = value === '' ? null : coerceSimpleValue(value, fieldTypes?.get(name));
+      }
+    });
+  });
+
+  return properties;
+};
+
+const parsePlacemark = (
+placemark: Element,
+folderPath: string[],
+schemas: Map<string, Map<string, string>>)
+: GeoJSONFeature => {
+  const geometryElement = childElements(placemark).find((child) => GEOMETRY_TAGS.includes(child.localName));
+
+  return {
+    type: 'Feature',
+    geometry: geometryElement ? parseGeometry(geometryElement) : null,
+    properties: {
+      name: childText(placemark, 'name') ?? null,
+      description: childText(placemark, 'description') ?? null,
+      ...parseExtendedData(placemark, schemas),
+      folder_path: folderPath.length > 0 ? folderPath.join(' / ') : null
+    }
+  };
+};
+
+const collectPlacemarks = (
+container: Element,
+folderPath: string[],
+schemas: Map<string, Map<string, string>>,
+features: GeoJSONFeature[])
+: void => {
+  childElements(container).forEach((child) => {
+    if (child.localName === 'Placemark') {
+      features.push(parsePlacemark(child, folderPath, schemas));
+    } else if (child.localName === 'Folder' || child.localName === 'Document') {
+      const name = childText(child, 'name');
+      collectPlacemarks(child, name ? [...folderPath, name] : folderPath, schemas, features);
+    }
+  });
+};
+
+export const parseKml = (text: string): GeoJSONFeature[] => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid KML: document is not well-formed XML');
+  }
+
+  const features: GeoJSONFeature[] = [];
+  collectPlacemarks(doc.documentElement, [], parseSchemas(doc), features);
+  return features;
+};
+
+// KMZ archives carry a root doc.kml, falling back to the first .kml entry
+export const extractKmlFromKmz = async (buffer: ArrayBuffer): Promise<string> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const kmlEntries = Object.values(zip.files).filter((entry) =>
+  !entry.dir && entry.name.toLowerCase().endsWith('.kml') && !entry.name.includes('__MACOSX')
+  );
+
+  const docEntry = kmlEntries.find((entry) => entry.name.toLowerCase() === 'doc.kml') || kmlEntries[0];
+  if (!docEntry) {
+    throw new Error('KMZ archive does not contain a KML document');
+  }
+
+  return docEntry.async('string');
+};
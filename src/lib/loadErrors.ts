@@ -0,0 +1,47 @@
+import { LoadRowError } from '@/types';
+
+// Turns the errors[] of a BigQuery load job into per-row errors. NDJSON errors name the byte
+// offset of the rejected row, which the processed file's row offsets map back to a feature.
+
+// The summary entries that only repeat the error count carry no row information
+const SUMMARY_PATTERN = /too many errors, giving up/i;
+
+export const parseLoadError = (error: {reason: string;message: string;location?: string;}): LoadRowError => {
+  const position = error.message.match(/row starting at position (\d+)/i) || error.message.match(/byte_offset_to_start_of_line: (\d+)/i);
+  const field = error.message.match(/Field: ([^;]+?)(?:;|$)/) || error.message.match(/No such field: ([^.;\s]+)/);
+  return {
+    reason: error.reason,
+    message: error.message,
+    location: error.location,
+    position: position ? Number(position[1]) : undefined,
+    field: field ? field[1].trim() : undefined
+  };
+};
+
+export const isSummaryError = (error: {message: string;}): boolean => SUMMARY_PATTERN.test(error.message);
+
+// Index of the row starting at the offset, or the last row starting before it
+export const rowIndexAt = (rowOffsets: number[], position: number): number => {
+  let low = 0;
+  let high = rowOffsets.length - 1;
+  while (low < high) {
+    const middle = Math.ceil((low + high) / 2);
+    if (rowOffsets[middle] <= position) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+};
+
+// Features dropped for invalid geometry have no row, so later rows sit at a lower index than their feature
+export const sourceFeatureIndex = (rowIndex: number, droppedFeatureIndexes: number[] = []): number => {
+  let featureIndex = rowIndex;
+  [...droppedFeatureIndexes].sort((a, b) => a - b).forEach((dropped) => {
+    if (dropped <= featureIndex) {
+      featureIndex++;
+    }
+  });
+  return featureIndex;
+};
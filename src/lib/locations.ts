@@ -0,0 +1,54 @@
+// BigQuery locations offered for new datasets, and whether BigQuery can load from a bucket's location
+
+export const DEFAULT_LOCATION = 'US';
+
+export const BIGQUERY_LOCATIONS: Array<{value: string;label: string;}> = [
+{ value: 'US', label: 'US (multi-region)' },
+{ value: 'EU', label: 'EU (multi-region)' },
+{ value: 'us-central1', label: 'Iowa (us-central1)' },
+{ value: 'us-east1', label: 'South Carolina (us-east1)' },
+{ value: 'us-east4', label: 'Northern Virginia (us-east4)' },
+{ value: 'us-west1', label: 'Oregon (us-west1)' },
+{ value: 'northamerica-northeast1', label: 'Montréal (northamerica-northeast1)' },
+{ value: 'southamerica-east1', label: 'São Paulo (southamerica-east1)' },
+{ value: 'europe-west1', label: 'Belgium (europe-west1)' },
+{ value: 'europe-west2', label: 'London (europe-west2)' },
+{ value: 'europe-west3', label: 'Frankfurt (europe-west3)' },
+{ value: 'europe-west4', label: 'Netherlands (europe-west4)' },
+{ value: 'europe-north1', label: 'Finland (europe-north1)' },
+{ value: 'asia-east1', label: 'Taiwan (asia-east1)' },
+{ value: 'asia-northeast1', label: 'Tokyo (asia-northeast1)' },
+{ value: 'asia-south1', label: 'Mumbai (asia-south1)' },
+{ value: 'asia-southeast1', label: 'Singapore (asia-southeast1)' },
+{ value: 'australia-southeast1', label: 'Sydney (australia-southeast1)' }];
+
+
+// European regions outside the EU multi-region
+const NON_EU_EUROPE_REGIONS = ['EUROPE-WEST2', 'EUROPE-WEST6', 'EUROPE-WEST9'];
+
+// Regions making up the predefined Cloud Storage dual-regions
+const DUAL_REGIONS: Record<string, string[]> = {
+  ASIA1: ['ASIA-NORTHEAST1', 'ASIA-NORTHEAST2'],
+  EUR4: ['EUROPE-NORTH1', 'EUROPE-WEST4'],
+  NAM4: ['US-CENTRAL1', 'US-EAST1']
+};
+
+const isInEu = (region: string) => region.startsWith('EUROPE-') && !NON_EU_EUROPE_REGIONS.includes(region);
+
+// Datasets in the US multi-region load from any bucket. Otherwise the bucket must be in the dataset's
+// region, or for a multi-region dataset in that multi-region or a region inside it.
+export const isBucketLocationCompatible = (bucketLocation: string, datasetLocation: string): boolean => {
+  const bucket = bucketLocation.toUpperCase();
+  const dataset = datasetLocation.toUpperCase();
+  const bucketRegions = DUAL_REGIONS[bucket] || bucket.split('+');
+
+  if (dataset === 'US' || bucket === dataset) {
+    return true;
+  }
+  if (dataset === 'EU') {
+    return bucketRegions.every(isInEu);
+  }
+  return bucketRegions.includes(dataset);
+};
+
+export const sameLocation = (a: string, b: string): boolean => a.toUpperCase() === b.toUpperCase();
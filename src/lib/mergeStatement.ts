@@ -0,0 +1,81 @@
+import { MergeOptions, SchemaField } from '@/types';
+
+// The MERGE that applies a staged load to the target table on the job's key columns
+
+// Types BigQuery can't compare for equality, so they can't identify a row
+const UNKEYABLE_TYPES: SchemaField['type'][] = ['GEOGRAPHY', 'JSON', 'RECORD'];
+
+const quote = (column: string) => `\`${column}\``;
+
+export const validateMergeOptions = (merge: MergeOptions, schema?: SchemaField[]): string[] => {
+  const errors: string[] = [];
+  const keyColumns = merge.keyColumns.filter(Boolean);
+
+  if (keyColumns.length === 0) {
+    errors.push('Merging needs at least one key column');
+  }
+  if (new Set(keyColumns).size !== keyColumns.length) {
+    errors.push('Key columns must be different');
+  }
+
+  if (schema) {
+    keyColumns.forEach((column) => {
+      const field = schema.find((candidate) => candidate.name === column);
+      if (!field) {
+        errors.push(`Key column ${column} is not in the schema`);
+      } else if (UNKEYABLE_TYPES.includes(field.type) || field.mode === 'REPEATED') {
+        errors.push(`Key column ${column} is ${field.mode === 'REPEATED' ? 'REPEATED' : field.type}, which can't be compared`);
+      }
+    });
+    if (merge.mode === 'update' && schema.every((field) => keyColumns.includes(field.name)) && !merge.deleteMissing) {
+      errors.push('Every column is a key column, so there is nothing to update');
+    }
+  }
+
+  return errors;
+};
+
+// Tables are `project.dataset.table` names. Columns are those of the staging table; target columns
+// missing from it are left as they are on update and NULL on insert. NULL keys match each other, so
+// a row with a NULL key updates the target row with the same keys instead of being inserted again.
+export const buildMergeStatement = (
+targetTable: string,
+stagingTable: string,
+columns: string[],
+merge: MergeOptions)
+: string => {
+  const keyColumns = merge.keyColumns.filter(Boolean);
+  const valueColumns = columns.filter((column) => !keyColumns.includes(column));
+
+  const clauses: string[] = [];
+  if (merge.mode !== 'insert' && valueColumns.length > 0) {
+    clauses.push(`WHEN MATCHED THEN UPDATE SET ${valueColumns.map((column) => `${quote(column)} = S.${quote(column)}`).join(', ')}`);
+  }
+  if (merge.mode !== 'update') {
+    clauses.push(
+      `WHEN NOT MATCHED BY TARGET THEN INSERT (${columns.map(quote).join(', ')}) VALUES (${columns.map((column) => `S.${quote(column)}`).join(', ')})`
+    );
+  }
+  if (merge.deleteMissing) {
+    clauses.push('WHEN NOT MATCHED BY SOURCE THEN DELETE');
+  }
+
+  return [
+  `MERGE \`${targetTable}\` T`,
+  `USING \`${stagingTable}\` S`,
+  `ON ${keyColumns.map((column) => `T.${quote(column)} IS NOT DISTINCT FROM S.${quote(column)}`).join(' AND ')}`,
+  ...clauses].
+  join('\n');
+};
+
+// Finds keys shared by more than one staged row, which would make the MERGE fail as it can't tell
+// which row updates the target. Returns the most repeated keys as JSON, with the number of such keys.
+export const buildDuplicateKeyQuery = (stagingTable: string, keyColumns: string[], limit = 5): string => [
+'SELECT merge_key, merge_key_rows, COUNT(*) OVER () AS duplicate_keys',
+`FROM (SELECT TO_JSON_STRING(STRUCT(${keyColumns.map(quote).join(', ')})) AS merge_key, COUNT(*) AS merge_key_rows`,
+`  FROM \`${stagingTable}\` GROUP BY merge_key HAVING merge_key_rows > 1)`,
+`ORDER BY merge_key_rows DESC LIMIT ${limit}`].
+join('\n');
+
+export const describeMergeOptions = (merge: MergeOptions): string =>
+`MERGE on ${merge.keyColumns.join(', ')} (${merge.mode === 'upsert' ? 'update and insert' : `${merge.mode} only`}${merge.deleteMissing ? ', delete missing' : ''})`;
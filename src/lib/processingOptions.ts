@@ -0,0 +1,36 @@
+import { ColumnTypeOverride, FileProcessingOptions, ProcessingConfig, TableLoadOptions } from '@/types';
+
+// Builds the options passed to file processing and table loads from the dashboard configuration
+
+// integerColumns is shorthand for INTEGER overrides; an explicit override for the same column wins
+const mergeColumnTypes = (config: ProcessingConfig): ColumnTypeOverride[] => {
+  const columnTypes = new Map<string, ColumnTypeOverride>();
+  config.integerColumns?.map((column) => column.trim()).filter(Boolean).forEach((column) =>
+  columnTypes.set(column, { column, type: 'INTEGER' })
+  );
+  config.typeOverrides?.filter((override) => override.column.trim()).forEach((override) =>
+  columnTypes.set(override.column.trim(), { column: override.column.trim(), type: override.type })
+  );
+  return Array.from(columnTypes.values());
+};
+
+export const toFileProcessingOptions = (config: ProcessingConfig): FileProcessingOptions => ({
+  sourceCrs: config.sourceCrs,
+  geometryPolicy: config.geometryPolicy,
+  columnTypes: mergeColumnTypes(config),
+  columnNameStyle: config.columnNameStyle,
+  schemaSampleSize: config.schemaSampleSize
+});
+
+export const toTableLoadOptions = (config: ProcessingConfig): TableLoadOptions => ({
+  schemaChangeAction: config.schemaChangeAction,
+  writeDisposition: config.merge ? undefined : config.writeDisposition,
+  partitioning: config.partitioning,
+  clusteringFields: config.clusteringFields?.map((column) => column.trim()).filter(Boolean),
+  tableMetadata: config.tableMetadata,
+  maxBadRecords: config.maxBadRecords,
+  ignoreUnknownValues: config.ignoreUnknownValues,
+  loadMethod: config.loadMethod,
+  location: config.location,
+  merge: config.merge && { ...config.merge, keyColumns: config.merge.keyColumns.map((column) => column.trim()).filter(Boolean) }
+});
@@ -0,0 +1,136 @@
+import proj4 from 'proj4';
+import { GeoJSONFeature, GeoJSONGeometry } from '@/types';
+
+// Coordinate reference system resolution and reprojection to WGS84 (EPSG:4326)
+
+type Position = number[];
+
+export interface SourceCrs {
+  label: string;
+  definition: string;
+  isWgs84: boolean;
+}
+
+const WGS84 = 'EPSG:4326';
+
+const utmZones = (prefix: number, zones: number[], datum: string, south = false) =>
+Object.fromEntries(zones.map((zone) => [
+`EPSG:${prefix + zone}`,
+`+proj=utm +zone=${zone}${south ? ' +south' : ''} ${datum} +units=m +no_defs`]
+));
+
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// Common CRSs that can be selected by EPSG code when a shapefile ships without a .prj.
+// Anything else can be supplied as a PROJ string or WKT definition.
+const EPSG_DEFINITIONS: Record<string, string> = {
+  'EPSG:4326': '+proj=longlat +datum=WGS84 +no_defs',
+  'EPSG:4269': '+proj=longlat +datum=NAD83 +no_defs',
+  'EPSG:4258': '+proj=longlat +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +no_defs',
+  'EPSG:3857': '+proj=merc +a=6378137 +b=6378137 +lat_ts=0 +lon_0=0 +x_0=0 +y_0=0 +k=1 +units=m +nadgrids=@null +no_defs',
+  'EPSG:5070': '+proj=aea +lat_0=23 +lon_0=-96 +lat_1=29.5 +lat_2=45.5 +x_0=0 +y_0=0 +datum=NAD83 +units=m +no_defs',
+  'EPSG:3310': '+proj=aea +lat_0=0 +lon_0=-120 +lat_1=34 +lat_2=40.5 +x_0=0 +y_0=-4000000 +datum=NAD83 +units=m +no_defs',
+  'EPSG:27700': '+proj=tmerc +lat_0=49 +lon_0=-2 +k=0.9996012717 +x_0=400000 +y_0=-100000 +ellps=airy +towgs84=446.448,-125.157,542.06,0.15,0.247,0.842,-20.489 +units=m +no_defs',
+  'EPSG:2154': '+proj=lcc +lat_0=46.5 +lon_0=3 +lat_1=49 +lat_2=44 +x_0=700000 +y_0=6600000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+  'EPSG:3035': '+proj=laea +lat_0=52 +lon_0=10 +x_0=4321000 +y_0=3210000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+  'EPSG:2193': '+proj=tmerc +lat_0=0 +lon_0=173 +k=0.9996 +x_0=1600000 +y_0=10000000 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+  'EPSG:3577': '+proj=aea +lat_0=0 +lon_0=132 +lat_1=-18 +lat_2=-36 +x_0=0 +y_0=0 +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs',
+  ...utmZones(32600, range(1, 60), '+datum=WGS84'),
+  ...utmZones(32700, range(1, 60), '+datum=WGS84', true),
+  ...utmZones(26900, range(1, 23), '+datum=NAD83'),
+  ...utmZones(25800, range(28, 38), '+ellps=GRS80 +towgs84=0,0,0,0,0,0,0')
+};
+
+const normalizeEpsgCode = (value: string): string | null => {
+  const match = value.trim().match(/^(?:EPSG:?)?\s*(\d{4,5})$/i);
+  return match ? `EPSG:${match[1]}` : null;
+};
+
+// Pulls the CRS name out of PROJCS["..."] / GEOGCS["..."] style WKT
+const wktName = (wkt: string): string | undefined => wkt.match(/^\s*[A-Z_]+\[\s*"([^"]+)"/i)?.[1];
+
+const isWgs84Definition = (definition: string): boolean => {
+  try {
+    const projection = proj4(definition).oProj as unknown as {projName?: string;datumCode?: string;datum_code?: string;};
+    const datum = (projection.datumCode || projection.datum_code || '').toLowerCase();
+    return projection.projName === 'longlat' && datum === 'wgs84';
+  } catch {
+    return false;
+  }
+};
+
+const toSourceCrs = (label: string, definition: string): SourceCrs => {
+  try {
+    proj4(definition, WGS84);
+  } catch (error) {
+    throw new Error(`Unsupported coordinate reference system "${label}": ${error instanceof Error ? error.message : error}`);
+  }
+  return { label, definition, isWgs84: isWgs84Definition(definition) };
+};
+
+export const resolveCrsOverride = (value: string): SourceCrs => {
+  const epsgCode = normalizeEpsgCode(value);
+  if (epsgCode) {
+    const definition = EPSG_DEFINITIONS[epsgCode];
+    if (!definition) {
+      throw new Error(`Unknown EPSG code ${epsgCode}. Paste its PROJ string or WKT definition instead.`);
+    }
+    return toSourceCrs(epsgCode, definition);
+  }
+  return toSourceCrs(wktName(value) || value.trim().slice(0, 60), value.trim());
+};
+
+// The layer's .prj wins, the user-selected CRS covers layers without one,
+// and data with neither is assumed to already be WGS84 lon/lat
+export const resolveSourceCrs = (prj?: string, override?: string): SourceCrs => {
+  if (prj) {
+    return toSourceCrs(wktName(prj) || 'Custom .prj', prj);
+  }
+  if (override?.trim()) {
+    return resolveCrsOverride(override);
+  }
+  return { label: `${WGS84} (assumed, no .prj)`, definition: EPSG_DEFINITIONS[WGS84], isWgs84: true };
+};
+
+const mapPositions = (coordinates: unknown, transform: (position: Position) => Position): unknown => {
+  if (Array.isArray(coordinates) && typeof coordinates[0] === 'number') {
+    return transform(coordinates as Position);
+  }
+  return Array.isArray(coordinates) ? coordinates.map((child) => mapPositions(child, transform)) : coordinates;
+};
+
+const mapGeometry = (geometry: GeoJSONGeometry, transform: (position: Position) => Position): GeoJSONGeometry => {
+  if (geometry.type === 'GeometryCollection') {
+    return { ...geometry, geometries: geometry.geometries.map((child) => mapGeometry(child, transform)) };
+  }
+  return { ...geometry, coordinates: mapPositions(geometry.coordinates, transform) };
+};
+
+const isValidLonLat = ([lon, lat]: Position) =>
+Number.isFinite(lon) && Number.isFinite(lat) && lon >= -180 && lon <= 180 && lat >= -90 && lat <= 90;
+
+export const reprojectFeatures = (features: GeoJSONFeature[], crs: SourceCrs): GeoJSONFeature[] => {
+  const converter = crs.isWgs84 ? null : proj4(crs.definition, WGS84);
+
+  return features.map((feature, index) => {
+    if (!feature.geometry) {
+      return feature;
+    }
+
+    const geometry = mapGeometry(feature.geometry, (position) => {
+      const [lon, lat] = converter ? converter.forward([position[0], position[1]]) : position;
+      if (!isValidLonLat([lon, lat])) {
+        throw new Error(
+          `Feature ${index} has coordinate (${position[0]}, ${position[1]}) outside WGS84 lon/lat range ` +
+          `after reprojection from ${crs.label}. ` + (
+          crs.isWgs84 ?
+          'The data looks projected; add a .prj file or select the source EPSG code.' :
+          'Check that the .prj file or selected EPSG code matches the data.')
+        );
+      }
+      return [lon, lat];
+    });
+
+    return { ...feature, geometry };
+  });
+};
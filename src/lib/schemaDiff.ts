@@ -0,0 +1,79 @@
+import { SchemaChange, SchemaDiff, SchemaField } from '@/types';
+
+// Compares the schema of an existing table with the schema a load would use. Column names
+// are compared case-insensitively, like BigQuery does.
+
+// Incoming types an existing column accepts as-is, because their JSON values parse into it
+const ACCEPTED_TYPES: Partial<Record<SchemaField['type'], SchemaField['type'][]>> = {
+  FLOAT: ['INTEGER'],
+  NUMERIC: ['INTEGER'],
+  BIGNUMERIC: ['INTEGER', 'NUMERIC']
+};
+
+// New columns cannot be REQUIRED because the existing rows have no value for them
+const relaxField = (field: SchemaField): SchemaField => field.mode === 'REQUIRED' ? { ...field, mode: 'NULLABLE' } : field;
+
+const diffFields = (
+existing: SchemaField[],
+incoming: SchemaField[],
+prefix: string,
+changes: SchemaChange[])
+: SchemaField[] => {
+  const unmatched = new Map(incoming.map((field) => [field.name.toLowerCase(), field]));
+
+  const updated = existing.map((field): SchemaField => {
+    const path = `${prefix}${field.name}`;
+    const match = unmatched.get(field.name.toLowerCase());
+    if (!match) {
+      // Rows without the column load as null, which a REQUIRED column only accepts after relaxation
+      changes.push({ path, kind: 'missing', from: field.type, compatible: true });
+      return relaxField(field);
+    }
+    unmatched.delete(field.name.toLowerCase());
+
+    if (field.type !== match.type && !ACCEPTED_TYPES[field.type]?.includes(match.type)) {
+      changes.push({ path, kind: 'type_changed', from: field.type, to: match.type, compatible: false });
+      return field;
+    }
+
+    let mode = field.mode;
+    if (field.mode === 'REQUIRED' && match.mode === 'NULLABLE') {
+      changes.push({ path, kind: 'mode_relaxed', from: field.mode, to: match.mode, compatible: true });
+      mode = 'NULLABLE';
+    } else if (field.mode !== match.mode && (field.mode === 'REPEATED' || match.mode === 'REPEATED')) {
+      changes.push({ path, kind: 'mode_changed', from: field.mode, to: match.mode, compatible: false });
+    }
+    // A NULLABLE column accepts data that happens to have no nulls, so REQUIRED incoming is no change
+
+    // Column descriptions from the load schema replace the existing ones
+    const description = match.description || field.description;
+    if (field.type === 'RECORD' && match.type === 'RECORD') {
+      return { ...field, mode, description, fields: diffFields(field.fields || [], match.fields || [], `${path}.`, changes) };
+    }
+    return { ...field, mode, description };
+  });
+
+  unmatched.forEach((field) => {
+    changes.push({ path: `${prefix}${field.name}`, kind: 'added', to: field.type, compatible: true });
+    updated.push(relaxField(field));
+  });
+
+  return updated;
+};
+
+export const diffSchemas = (existing: SchemaField[], incoming: SchemaField[]): SchemaDiff => {
+  const changes: SchemaChange[] = [];
+  const updatedSchema = diffFields(existing, incoming, '', changes);
+  return { changes, compatible: changes.every((change) => change.compatible), updatedSchema };
+};
+
+export const formatSchemaChange = (change: SchemaChange): string => {
+  switch (change.kind) {
+    case 'added':
+      return `${change.path} added (${change.to})`;
+    case 'missing':
+      return `${change.path} missing from the data (${change.from})`;
+    default:
+      return `${change.path} ${change.from} → ${change.to}`;
+  }
+};
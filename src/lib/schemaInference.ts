@@ -0,0 +1,231 @@
+import { ColumnInferenceSummary, SchemaField } from '@/types';
+
+// Infers a BigQuery schema from the records that are written to the NDJSON load file.
+// Every non-null value is classified and the column type is the join of all observations
+// on a small lattice: INTEGER → FLOAT, DATE → TIMESTAMP, and anything incompatible → STRING.
+
+type ObservedType = 'BOOLEAN' | 'INTEGER' | 'FLOAT' | 'DATE' | 'TIMESTAMP' | 'STRING' | 'GEOGRAPHY' | 'RECORD';
+
+export interface SchemaInferenceOptions {
+  sampleSize?: number; // Classify at most this many records, spread evenly over the file
+}
+
+export interface SchemaInferenceResult {
+  schema: SchemaField[];
+  columns: ColumnInferenceSummary[]; // Top-level columns only
+}
+
+interface FieldStats {
+  type?: ObservedType;
+  present: number;
+  nulls: number;
+  typeCounts: Partial<Record<ObservedType, number>>; // Array elements are counted one by one
+  repeated?: boolean; // Set by the first non-null value
+  shapeConflict: boolean; // Arrays mixed with single values, or arrays of arrays
+  records: number; // RECORD values seen, the denominator for child nullability
+  fields: Map<string, FieldStats>;
+}
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+// BigQuery's canonical TIMESTAMP format, seconds are required and precision is microseconds
+const ISO_TIMESTAMP_PATTERN = /^(\d{4})-(\d{2})-(\d{2})[T ]([01]\d|2[0-3]):[0-5]\d:[0-5]\d(\.\d{1,6})?(Z|[+-]\d{2}(:\d{2})?)?$/;
+
+// Observed types that widen into another without losing information
+const LOSSLESS_WIDENING: Partial<Record<ObservedType, ObservedType>> = {
+  INTEGER: 'FLOAT',
+  DATE: 'TIMESTAMP'
+};
+
+const createStats = (): FieldStats => ({ present: 0, nulls: 0, typeCounts: {}, shapeConflict: false, records: 0, fields: new Map() });
+
+const isCalendarDate = (year: string, month: string, day: string) => {
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return date.getUTCFullYear() === Number(year) && date.getUTCMonth() === Number(month) - 1 && date.getUTCDate() === Number(day);
+};
+
+const classifyString = (value: string): ObservedType => {
+  const dateMatch = value.match(ISO_DATE_PATTERN) || value.match(ISO_TIMESTAMP_PATTERN);
+  if (!dateMatch || !isCalendarDate(dateMatch[1], dateMatch[2], dateMatch[3])) {
+    return 'STRING';
+  }
+  return value.length === 10 ? 'DATE' : 'TIMESTAMP';
+};
+
+// Strings such as "true" or "42" stay STRING: only JSON booleans and numbers are typed
+const classifyValue = (value: unknown, geography: boolean): ObservedType => {
+  if (typeof value === 'boolean') {
+    return 'BOOLEAN';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'INTEGER' : 'FLOAT';
+  }
+  if (typeof value === 'string') {
+    return geography ? 'GEOGRAPHY' : classifyString(value);
+  }
+  return typeof value === 'object' ? 'RECORD' : 'STRING';
+};
+
+const joinTypes = (a: ObservedType | undefined, b: ObservedType): ObservedType => {
+  if (!a || a === b) {
+    return b;
+  }
+  if (LOSSLESS_WIDENING[a] === b) {
+    return b;
+  }
+  return LOSSLESS_WIDENING[b] === a ? a : 'STRING';
+};
+
+const fitsType = (observed: ObservedType, type: ObservedType) => observed === type || LOSSLESS_WIDENING[observed] === type;
+
+const observeElement = (stats: FieldStats, value: unknown, geography: boolean) => {
+  const observed = classifyValue(value, geography);
+  stats.typeCounts[observed] = (stats.typeCounts[observed] || 0) + 1;
+  stats.type = joinTypes(stats.type, observed);
+  if (observed === 'RECORD') {
+    stats.records++;
+    observeRecord(stats.fields, value as Record<string, unknown>, true);
+  }
+};
+
+const observeValue = (stats: FieldStats, value: unknown, geography: boolean) => {
+  stats.present++;
+  if (value === null || value === undefined) {
+    stats.nulls++;
+    return;
+  }
+
+  const isArray = Array.isArray(value);
+  if (stats.repeated !== undefined && stats.repeated !== isArray) {
+    stats.shapeConflict = true;
+  }
+  stats.repeated = stats.repeated ?? isArray;
+  if (!isArray) {
+    observeElement(stats, value, geography);
+    return;
+  }
+  value.forEach((element) => {
+    if (Array.isArray(element)) {
+      stats.shapeConflict = true; // BigQuery has no arrays of arrays
+    } else if (element !== null && element !== undefined) {
+      observeElement(stats, element, geography);
+    }
+  });
+};
+
+const observeRecord = (fields: Map<string, FieldStats>, record: Record<string, unknown>, nested: boolean) => {
+  for (const key in record) {
+    let stats = fields.get(key);
+    if (!stats) {
+      stats = createStats();
+      fields.set(key, stats);
+    }
+    observeValue(stats, record[key], !nested && key === 'geometry');
+  }
+};
+
+// Shape conflicts and empty objects cannot be described by a BigQuery schema and are loaded as JSON text
+const resolveType = (stats: FieldStats): ObservedType => {
+  if (stats.shapeConflict || stats.type === 'RECORD' && stats.fields.size === 0) {
+    return 'STRING';
+  }
+  return stats.type || 'STRING';
+};
+
+// Missing keys count as nulls, and a sample cannot prove that a column is never null
+const toSchemaField = (name: string, stats: FieldStats, parentCount: number, sampled: boolean): SchemaField => {
+  const type = resolveType(stats);
+  const nullable = sampled || stats.nulls > 0 || stats.present < parentCount;
+  const field: SchemaField = {
+    name,
+    type,
+    mode: stats.repeated && !stats.shapeConflict ? 'REPEATED' : nullable ? 'NULLABLE' : 'REQUIRED'
+  };
+  if (type === 'RECORD') {
+    field.fields = Array.from(stats.fields, ([childName, child]) => toSchemaField(childName, child, stats.records, sampled));
+  }
+  return field;
+};
+
+// Evenly spaced indexes so a sample covers the start, middle and end of the file
+const sampleRecords = (records: Record<string, unknown>[], sampleSize?: number) => {
+  if (!sampleSize || sampleSize <= 0 || records.length <= sampleSize) {
+    return records;
+  }
+  const step = records.length / sampleSize;
+  return Array.from({ length: sampleSize }, (_, index) => records[Math.floor(index * step)]);
+};
+
+export const inferSchema = (
+records: Record<string, unknown>[],
+{ sampleSize }: SchemaInferenceOptions = {})
+: SchemaInferenceResult => {
+  const sample = sampleRecords(records, sampleSize);
+  const sampled = sample.length < records.length;
+  const columns = new Map<string, FieldStats>();
+  sample.forEach((record) => observeRecord(columns, record, false));
+
+  const schema = Array.from(columns, ([name, stats]) => toSchemaField(name, stats, sample.length, sampled));
+  const summaries = schema.map((field): ColumnInferenceSummary => {
+    const stats = columns.get(field.name) as FieldStats;
+    const counts = Object.entries(stats.typeCounts) as Array<[ObservedType, number]>;
+    const total = counts.reduce((sum, [, count]) => sum + count, 0);
+    const fitting = counts.
+    filter(([observed]) => fitsType(observed, field.type as ObservedType)).
+    reduce((sum, [, count]) => sum + count, 0);
+    const nonNullValues = stats.present - stats.nulls;
+
+    return {
+      column: field.name,
+      type: field.type,
+      source: 'inferred',
+      nonNullValues,
+      nullValues: sample.length - nonNullValues,
+      typeCounts: stats.typeCounts,
+      confidence: total > 0 ? fitting / total : 0,
+      conflict: stats.shapeConflict || field.type === 'STRING' && counts.length > 1,
+      sampled
+    };
+  });
+
+  return { schema, columns: summaries };
+};
+
+const conformElement = (value: unknown, field: SchemaField): unknown => {
+  if (field.type === 'STRING' && typeof value !== 'string') {
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+  if (field.type === 'RECORD' && typeof value === 'object' && !Array.isArray(value)) {
+    conformRecord(value as Record<string, unknown>, field.fields || []);
+  }
+  return value;
+};
+
+// BigQuery rejects null array elements, and a single value in a REPEATED column becomes a one-element array
+const conformValue = (value: unknown, field: SchemaField): unknown => {
+  if (value === null || value === undefined) {
+    return value;
+  }
+  if (field.mode === 'REPEATED') {
+    const elements = Array.isArray(value) ? value : [value];
+    return elements.filter((element) => element !== null && element !== undefined).map((element) => conformElement(element, field));
+  }
+  return conformElement(value, field);
+};
+
+const conformRecord = (record: Record<string, unknown>, fields: SchemaField[]) => {
+  fields.forEach((field) => {
+    if (field.name in record) {
+      record[field.name] = conformValue(record[field.name], field);
+    }
+  });
+};
+
+// Rewrites values in place so they match the final schema: columns widened to STRING still hold
+// numbers, booleans or objects in some records, which BigQuery rejects, so those are written as text
+export const conformRecords = (records: Record<string, unknown>[], schema: SchemaField[]) => {
+  const fields = schema.filter((field) => field.type === 'STRING' || field.type === 'RECORD' || field.mode === 'REPEATED');
+  if (fields.length === 0) {
+    return;
+  }
+  records.forEach((record) => conformRecord(record, fields));
+};
@@ -0,0 +1,90 @@
+import JSZip from 'jszip';
+import shp from 'shpjs';
+import { GeoJSONFeature } from '@/types';
+import { DbfField, readDbf } from '@/lib/dbf';
+
+// Shapefile ZIP reader that keeps each layer's .prj instead of letting shpjs reproject silently
+
+export interface ShapefileLayer {
+  name: string;
+  features: GeoJSONFeature[];
+  prj?: string;
+  fields: DbfField[]; // DBF field descriptors, used for typing the schema
+}
+
+const extensionOf = (path: string) => path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+const stripExtension = (path: string) => path.slice(0, path.lastIndexOf('.'));
+
+const baseNameOf = (shpPath: string) => stripExtension(shpPath).split('/').pop();
+
+// Sidecar files are matched on their path without extension, case-insensitively
+const groupSidecars = (zip: JSZip): Map<string, JSZip.JSZipObject>[] => {
+  const entries = new Map<string, Map<string, JSZip.JSZipObject>>();
+  Object.values(zip.files).forEach((entry) => {
+    if (entry.dir || entry.name.includes('__MACOSX') || entry.name.lastIndexOf('.') === -1) {
+      return;
+    }
+    const base = stripExtension(entry.name).toLowerCase();
+    if (!entries.has(base)) {
+      entries.set(base, new Map());
+    }
+    entries.get(base)!.set(extensionOf(entry.name), entry);
+  });
+
+  const groups = Array.from(entries.values()).filter((sidecars) => sidecars.has('shp'));
+  if (groups.length === 0) {
+    throw new Error('No shapefile (.shp) found in ZIP archive');
+  }
+  return groups;
+};
+
+// Layers are named after their .shp file, or by its path inside the ZIP when several folders hold
+// a file of that name
+const nameLayers = (groups: Map<string, JSZip.JSZipObject>[]): Array<{name: string;sidecars: Map<string, JSZip.JSZipObject>;}> => {
+  const baseNames = groups.map((sidecars) => baseNameOf(sidecars.get('shp').name));
+  return groups.map((sidecars, index) => {
+    const shared = baseNames.filter((name) => name.toLowerCase() === baseNames[index].toLowerCase()).length > 1;
+    return { name: shared ? stripExtension(sidecars.get('shp').name) : baseNames[index], sidecars };
+  });
+};
+
+export const listShapefileLayers = async (buffer: ArrayBuffer): Promise<string[]> => {
+  const zip = await JSZip.loadAsync(buffer);
+  return nameLayers(groupSidecars(zip)).map((layer) => layer.name);
+};
+
+// Reads every layer in the archive, or only the named ones when layerNames is given
+export const readShapefileLayers = async (buffer: ArrayBuffer, layerNames?: string[]): Promise<ShapefileLayer[]> => {
+  const zip = await JSZip.loadAsync(buffer);
+  const groups = nameLayers(groupSidecars(zip)).filter((layer) => !layerNames || layerNames.includes(layer.name));
+
+  if (groups.length === 0) {
+    throw new Error(`Layer not found in ZIP archive: ${layerNames.join(', ')}`);
+  }
+
+  const layers: ShapefileLayer[] = [];
+  for (const { name, sidecars } of groups) {
+    const shpEntry = sidecars.get('shp');
+    const dbfEntry = sidecars.get('dbf');
+    const prjEntry = sidecars.get('prj');
+    const cpgEntry = sidecars.get('cpg');
+
+    const geometries = shp.parseShp(await shpEntry.async('arraybuffer'));
+    const dbf = dbfEntry ?
+    readDbf(await dbfEntry.async('arraybuffer'), cpgEntry ? await cpgEntry.async('string') : undefined) :
+    { fields: [], records: [] };
+
+    layers.push({
+      name,
+      prj: prjEntry ? (await prjEntry.async('string')).trim() : undefined,
+      fields: dbf.fields,
+      features: geometries.map((geometry, index) => ({
+        type: 'Feature',
+        geometry: geometry || null,
+        properties: dbf.records[index] || {}
+      }))
+    });
+  }
+
+  return layers;
+};
@@ -0,0 +1,48 @@
+import { LoadMethod, WriteDisposition } from '@/types';
+
+// Choosing between a batch load staged in Cloud Storage and streaming inserts, and splitting
+// streamed rows into insertAll requests
+
+export const STREAMING_MAX_FILE_BYTES = 2 * 1024 * 1024; // Source files up to this size stream in auto mode
+export const MAX_INSERT_ROWS = 500; // Rows per insertAll request, as BigQuery recommends
+export const MAX_INSERT_BYTES = 5 * 1024 * 1024; // Half the 10 MB request limit, leaving room for insert ids
+
+// Insert errors worth sending again: rows BigQuery held back because another row in the request
+// was invalid, and transient failures on its side
+export const RETRYABLE_INSERT_REASONS = ['stopped', 'backendError', 'internalError', 'timeout'];
+
+// Streaming inserts only append, so truncating loads always go through a batch load
+export const resolveLoadMethod = (
+method: LoadMethod = 'auto',
+fileSize: number,
+writeDisposition?: WriteDisposition)
+: Exclude<LoadMethod, 'auto'> => {
+  if (method !== 'auto') {
+    return method;
+  }
+  return fileSize <= STREAMING_MAX_FILE_BYTES && writeDisposition !== 'WRITE_TRUNCATE' ? 'streaming' : 'batch';
+};
+
+// Consecutive [start, end) row ranges under both limits; a row over the byte limit gets a request of its own
+export const batchRanges = (
+rowSizes: number[],
+maxRows = MAX_INSERT_ROWS,
+maxBytes = MAX_INSERT_BYTES)
+: Array<{start: number;end: number;}> => {
+  const ranges: Array<{start: number;end: number;}> = [];
+  let start = 0;
+  let bytes = 0;
+
+  rowSizes.forEach((size, index) => {
+    if (index > start && (index - start >= maxRows || bytes + size > maxBytes)) {
+      ranges.push({ start, end: index });
+      start = index;
+      bytes = 0;
+    }
+    bytes += size;
+  });
+  if (start < rowSizes.length) {
+    ranges.push({ start, end: rowSizes.length });
+  }
+  return ranges;
+};
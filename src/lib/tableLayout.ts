@@ -0,0 +1,109 @@
+import { ColumnMapping, SchemaField, TableLayout } from '@/types';
+
+// Checks partitioning and clustering settings. Columns are only checked when the load schema is
+// known; with schema auto-detection BigQuery validates them when the load job runs.
+
+export const MAX_CLUSTERING_FIELDS = 4;
+const MAX_RANGE_PARTITIONS = 10000;
+
+const TIME_PARTITION_TYPES: SchemaField['type'][] = ['DATE', 'TIMESTAMP', 'DATETIME'];
+const CLUSTERING_TYPES: SchemaField['type'][] = [
+'STRING', 'INTEGER', 'NUMERIC', 'BIGNUMERIC', 'BOOLEAN', 'DATE', 'DATETIME', 'TIMESTAMP', 'GEOGRAPHY'];
+
+
+// Partitioning and clustering columns must be top-level, non-repeated columns of an allowed type
+const checkColumn = (
+schema: SchemaField[] | undefined,
+name: string,
+allowed: SchemaField['type'][],
+usage: string,
+errors: string[])
+: SchemaField | undefined => {
+  if (!schema) {
+    return undefined;
+  }
+  const column = schema.find((field) => field.name.toLowerCase() === name.toLowerCase());
+  if (!column) {
+    errors.push(`${usage} column "${name}" is not in the schema`);
+  } else if (!allowed.includes(column.type)) {
+    errors.push(`${usage} column "${name}" is ${column.type}; expected ${allowed.join(', ')}`);
+  } else if (column.mode === 'REPEATED') {
+    errors.push(`${usage} column "${name}" cannot be REPEATED`);
+  }
+  return column;
+};
+
+export const validateTableLayout = (layout: TableLayout, schema?: SchemaField[]): string[] => {
+  const errors: string[] = [];
+  const { partitioning, clusteringFields = [] } = layout;
+
+  if (partitioning?.kind === 'time') {
+    if (!partitioning.field) {
+      errors.push('Time partitioning needs a DATE, TIMESTAMP or DATETIME column');
+    } else {
+      const column = checkColumn(schema, partitioning.field, TIME_PARTITION_TYPES, 'Partitioning', errors);
+      if (column?.type === 'DATE' && partitioning.granularity === 'HOUR') {
+        errors.push(`Partitioning column "${partitioning.field}" is a DATE and cannot be partitioned by hour`);
+      }
+    }
+  } else if (partitioning?.kind === 'range') {
+    if (!partitioning.field) {
+      errors.push('Integer-range partitioning needs an INTEGER column');
+    } else {
+      checkColumn(schema, partitioning.field, ['INTEGER'], 'Partitioning', errors);
+    }
+    const { start, end, interval } = partitioning.range || { start: NaN, end: NaN, interval: NaN };
+    if (![start, end, interval].every(Number.isInteger) || interval <= 0 || end <= start) {
+      errors.push('Integer-range partitioning needs whole-number bounds with start below end and a positive interval');
+    } else if (Math.ceil((end - start) / interval) > MAX_RANGE_PARTITIONS) {
+      errors.push(`Integer-range partitioning would create more than ${MAX_RANGE_PARTITIONS} partitions`);
+    }
+  }
+
+  if (clusteringFields.length > MAX_CLUSTERING_FIELDS) {
+    errors.push(`Clustering allows at most ${MAX_CLUSTERING_FIELDS} columns`);
+  }
+  const seen = new Set<string>();
+  clusteringFields.forEach((name) => {
+    if (seen.has(name.toLowerCase())) {
+      errors.push(`Clustering column "${name}" is listed twice`);
+    }
+    seen.add(name.toLowerCase());
+    checkColumn(schema, name, CLUSTERING_TYPES, 'Clustering', errors);
+  });
+
+  return errors;
+};
+
+// Layout columns may be given by their source names, the processed file uses the sanitized ones
+export const renameTableLayout = (layout: TableLayout, columnMapping: ColumnMapping[] = []): TableLayout => {
+  const rename = (name: string) => columnMapping.find((mapping) => mapping.original === name)?.final ?? name;
+  return {
+    partitioning: layout.partitioning?.field ? { ...layout.partitioning, field: rename(layout.partitioning.field) } : layout.partitioning,
+    clusteringFields: layout.clusteringFields?.map(rename)
+  };
+};
+
+export const hasTableLayout = (layout: TableLayout): boolean =>
+!!layout.partitioning || !!layout.clusteringFields && layout.clusteringFields.length > 0;
+
+export const formatTableLayout = (layout: TableLayout): string => {
+  const { partitioning, clusteringFields = [] } = layout;
+  const parts: string[] = [];
+  if (partitioning?.kind === 'time') {
+    parts.push(`${partitioning.granularity || 'DAY'} partitions on ${partitioning.field}`);
+  } else if (partitioning?.kind === 'ingestion') {
+    parts.push(`${partitioning.granularity || 'DAY'} ingestion-time partitions`);
+  } else if (partitioning?.kind === 'range') {
+    const { start, end, interval } = partitioning.range!;
+    parts.push(`range partitions on ${partitioning.field} from ${start} to ${end} by ${interval}`);
+  }
+  if (clusteringFields.length > 0) {
+    parts.push(`clustered by ${clusteringFields.join(', ')}`);
+  }
+  return parts.length > 0 ? parts.join('; ') : 'no partitioning or clustering';
+};
+
+// Column names compare case-insensitively, like BigQuery does
+export const sameTableLayout = (a: TableLayout, b: TableLayout): boolean =>
+formatTableLayout(a).toLowerCase() === formatTableLayout(b).toLowerCase();
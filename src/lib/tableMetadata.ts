@@ -0,0 +1,87 @@
+import { TableMetadata } from '@/types';
+
+// Table labels and the provenance note stamped on each loaded table
+
+export const MAX_LABELS = 64;
+const LABEL_KEY_PATTERN = /^[a-z][a-z0-9_-]{0,62}$/;
+const LABEL_VALUE_PATTERN = /^[a-z0-9_-]{0,63}$/;
+const PROVENANCE_PREFIX = 'Last load: ';
+const MAX_CRS_LENGTH = 80; // PROJ and WKT definitions are summarized rather than copied
+
+export interface TableProvenance {
+  source: string; // File name or gs:// URI
+  sizeBytes?: number;
+  sourceCrs?: string;
+  featureCount?: number;
+  jobId: string;
+  loadedBy?: string; // Email of the signed-in user
+  loadedAt: Date;
+}
+
+// "key=value, other=value" as typed in the dashboard; a key without a value gets an empty one
+export const parseLabels = (text: string): Record<string, string> =>
+Object.fromEntries(
+  text.split(',').
+  map((entry) => entry.trim()).
+  filter(Boolean).
+  map((entry) => {
+    const [key, ...value] = entry.split('=');
+    return [key.trim(), value.join('=').trim()];
+  })
+);
+
+export const formatLabels = (labels: Record<string, string> = {}): string =>
+Object.entries(labels).map(([key, value]) => `${key}=${value}`).join(', ');
+
+// Lowercases and replaces characters labels don't allow, for values taken from file names and ids
+export const toLabelValue = (text: string): string => text.toLowerCase().replace(/[^a-z0-9_-]/g, '_').slice(0, 63);
+
+export const validateTableMetadata = (metadata: TableMetadata): string[] => {
+  const errors: string[] = [];
+  const labels = Object.entries(metadata.labels || {});
+
+  if (labels.length > MAX_LABELS) {
+    errors.push(`Tables allow at most ${MAX_LABELS} labels`);
+  }
+  labels.forEach(([key, value]) => {
+    if (!LABEL_KEY_PATTERN.test(key)) {
+      errors.push(`Label key "${key}" must start with a lowercase letter and use only lowercase letters, digits, _ or -`);
+    }
+    if (!LABEL_VALUE_PATTERN.test(value)) {
+      errors.push(`Label value "${value}" may only use lowercase letters, digits, _ or -`);
+    }
+  });
+
+  if (metadata.expirationDays !== undefined && (!Number.isInteger(metadata.expirationDays) || metadata.expirationDays <= 0)) {
+    errors.push('Table expiration must be a whole number of days');
+  }
+
+  return errors;
+};
+
+const formatSize = (bytes: number) =>
+bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+export const describeProvenance = (provenance: TableProvenance): string => {
+  const details = [
+  provenance.sizeBytes ? formatSize(provenance.sizeBytes) : undefined,
+  provenance.sourceCrs ? `source CRS ${provenance.sourceCrs.length > MAX_CRS_LENGTH ? 'from a custom definition' : provenance.sourceCrs}` : undefined,
+  provenance.featureCount !== undefined ? `${provenance.featureCount.toLocaleString()} features` : undefined].
+  filter(Boolean);
+
+  return `${PROVENANCE_PREFIX}${provenance.source}${details.length > 0 ? ` (${details.join(', ')})` : ''}, ` +
+  `job ${provenance.jobId}${provenance.loadedBy ? `, loaded by ${provenance.loadedBy}` : ''}, ${provenance.loadedAt.toISOString()}`;
+};
+
+// Replaces the provenance note of an earlier load, keeping the description written above it
+export const withProvenance = (description: string | undefined, provenance: TableProvenance): string => {
+  const base = (description || '').split(`\n\n${PROVENANCE_PREFIX}`)[0].trim();
+  const note = describeProvenance(provenance);
+  return base && !base.startsWith(PROVENANCE_PREFIX) ? `${base}\n\n${note}` : note;
+};
+
+export const provenanceLabels = (provenance: TableProvenance): Record<string, string> => ({
+  loaded_by_job: toLabelValue(provenance.jobId),
+  source_file: toLabelValue(provenance.source.split('/').pop() || provenance.source),
+  ...(provenance.sourceCrs && /^\w+:\d+$/.test(provenance.sourceCrs) && { source_crs: toLabelValue(provenance.sourceCrs) })
+});
@@ -0,0 +1,26 @@
+import { TableReference } from '@/types';
+
+// Target table names: `dataset.table` in the job's project, or `project.dataset.table` for a table in
+// another project. Domain-scoped projects such as `example.com:project` keep their dot.
+
+export const parseTableReference = (name: string, defaultProjectId: string): TableReference | null => {
+  const parts = name.trim().split('.').map((part) => part.trim());
+  if (parts.length < 2) {
+    return null;
+  }
+
+  const tableId = parts.pop()!;
+  const datasetId = parts.pop()!;
+  const projectId = parts.length > 0 ? parts.join('.') : defaultProjectId.trim();
+  if (!projectId || !datasetId || !tableId) {
+    return null;
+  }
+  return { projectId, datasetId, tableId };
+};
+
+// `project.dataset.table`, as SQL and the BigQuery console name the table
+export const qualifiedTableName = (table: TableReference): string => `${table.projectId}.${table.datasetId}.${table.tableId}`;
+
+// Short `dataset.table` name when the table is in the given project
+export const formatTableReference = (table: TableReference, projectId?: string): string =>
+table.projectId === projectId ? `${table.datasetId}.${table.tableId}` : qualifiedTableName(table);
@@ -0,0 +1,121 @@
+import { GeoJSONGeometry } from '@/types';
+
+// Well-Known Binary reader (ISO and PostGIS EWKB) producing 2D GeoJSON geometries
+
+type Position = number[];
+
+const EWKB_Z = 0x80000000;
+const EWKB_M = 0x40000000;
+const EWKB_SRID = 0x20000000;
+
+const HEX_PATTERN = /^(00|01)[0-9a-f]{40,}$/i;
+
+export const looksLikeWkbHex = (value: string): boolean => {
+  const hex = value.trim();
+  return hex.length % 2 === 0 && HEX_PATTERN.test(hex);
+};
+
+export const hexToBytes = (hex: string): Uint8Array => {
+  const clean = hex.trim();
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+class WkbReader {
+  private view: DataView;
+  private offset: number;
+
+  constructor(bytes: Uint8Array, offset = 0) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    this.offset = offset;
+  }
+
+  private readUint32(littleEndian: boolean): number {
+    const value = this.view.getUint32(this.offset, littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  private readPosition(littleEndian: boolean, dimensions: number): Position {
+    const x = this.view.getFloat64(this.offset, littleEndian);
+    const y = this.view.getFloat64(this.offset + 8, littleEndian);
+    this.offset += dimensions * 8;
+    return [x, y];
+  }
+
+  private readPositions(littleEndian: boolean, dimensions: number): Position[] {
+    const count = this.readUint32(littleEndian);
+    const positions: Position[] = [];
+    for (let i = 0; i < count; i++) {
+      positions.push(this.readPosition(littleEndian, dimensions));
+    }
+    return positions;
+  }
+
+  private readRings(littleEndian: boolean, dimensions: number): Position[][] {
+    const count = this.readUint32(littleEndian);
+    const rings: Position[][] = [];
+    for (let i = 0; i < count; i++) {
+      rings.push(this.readPositions(littleEndian, dimensions));
+    }
+    return rings;
+  }
+
+  private readParts(littleEndian: boolean): GeoJSONGeometry[] {
+    const count = this.readUint32(littleEndian);
+    const parts: GeoJSONGeometry[] = [];
+    for (let i = 0; i < count; i++) {
+      parts.push(this.readGeometry());
+    }
+    return parts;
+  }
+
+  readGeometry(): GeoJSONGeometry | null {
+    const littleEndian = this.view.getUint8(this.offset) === 1;
+    this.offset += 1;
+
+    const rawType = this.readUint32(littleEndian);
+    let hasZ = (rawType & EWKB_Z) !== 0;
+    let hasM = (rawType & EWKB_M) !== 0;
+    if (rawType & EWKB_SRID) {
+      this.offset += 4;
+    }
+
+    // ISO WKB encodes dimensions as 1000 (Z), 2000 (M) and 3000 (ZM) offsets
+    const isoType = rawType & 0x0fffffff;
+    const dimensionCode = Math.floor(isoType / 1000);
+    hasZ = hasZ || dimensionCode === 1 || dimensionCode === 3;
+    hasM = hasM || dimensionCode === 2 || dimensionCode === 3;
+    const type = isoType % 1000;
+    const dimensions = 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0);
+
+    switch (type) {
+      case 1:{
+          const position = this.readPosition(littleEndian, dimensions);
+          // Empty points are encoded as NaN coordinates
+          return isNaN(position[0]) ? null : { type: 'Point', coordinates: position };
+        }
+      case 2:
+        return { type: 'LineString', coordinates: this.readPositions(littleEndian, dimensions) };
+      case 3:
+        return { type: 'Polygon', coordinates: this.readRings(littleEndian, dimensions) };
+      case 4:
+        return { type: 'MultiPoint', coordinates: this.readParts(littleEndian).filter(Boolean).map((part) => part.coordinates) };
+      case 5:
+        return { type: 'MultiLineString', coordinates: this.readParts(littleEndian).map((part) => part.coordinates) };
+      case 6:
+        return { type: 'MultiPolygon', coordinates: this.readParts(littleEndian).map((part) => part.coordinates) };
+      case 7:
+        return { type: 'GeometryCollection', geometries: this.readParts(littleEndian).filter(Boolean) };
+      default:
+        throw new Error(`Unsupported WKB geometry type: ${type}`);
+    }
+  }
+}
+
+export const parseWkb = (bytes: Uint8Array, offset = 0): GeoJSONGeometry | null => {
+  return new WkbReader(bytes, offset).readGeometry();
+};
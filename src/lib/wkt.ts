@@ -0,0 +1,130 @@
+import { GeoJSONGeometry } from '@/types';
+
+// Well-Known Text reader producing 2D GeoJSON geometries
+
+type Position = number[];
+
+const WKT_PATTERN = /^\s*(SRID=\d+;\s*)?(POINT|LINESTRING|POLYGON|MULTIPOINT|MULTILINESTRING|MULTIPOLYGON|GEOMETRYCOLLECTION)\b/i;
+
+export const looksLikeWkt = (value: string): boolean => WKT_PATTERN.test(value);
+
+class WktReader {
+  private tokens: string[];
+  private index = 0;
+
+  constructor(text: string) {
+    this.tokens = text.
+    replace(/^\s*SRID=\d+;/i, '').
+    match(/[A-Za-z]+|[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?|[(),]/g) || [];
+  }
+
+  private peek(): string | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): string {
+    const token = this.tokens[this.index++];
+    if (token === undefined) {
+      throw new Error('Invalid WKT: unexpected end of input');
+    }
+    return token;
+  }
+
+  private expect(token: string): void {
+    const actual = this.next();
+    if (actual !== token) {
+      throw new Error(`Invalid WKT: expected "${token}" but found "${actual}"`);
+    }
+  }
+
+  // Consumes Z/M/ZM dimension markers and EMPTY, returning true for EMPTY
+  private readDimensionsAndEmpty(): boolean {
+    while (this.peek() && /^(Z|M|ZM)$/i.test(this.peek()!)) {
+      this.next();
+    }
+    if (this.peek()?.toUpperCase() === 'EMPTY') {
+      this.next();
+      return true;
+    }
+    return false;
+  }
+
+  private readPosition(): Position {
+    const values: number[] = [];
+    while (this.peek() !== undefined && this.peek() !== ',' && this.peek() !== ')') {
+      const value = Number(this.next());
+      if (isNaN(value)) {
+        throw new Error('Invalid WKT: coordinate is not a number');
+      }
+      values.push(value);
+    }
+    if (values.length < 2) {
+      throw new Error('Invalid WKT: coordinate needs at least two ordinates');
+    }
+    return [values[0], values[1]];
+  }
+
+  private readList<T>(readItem: () => T): T[] {
+    this.expect('(');
+    const items = [readItem()];
+    while (this.peek() === ',') {
+      this.next();
+      items.push(readItem());
+    }
+    this.expect(')');
+    return items;
+  }
+
+  private readPositions(): Position[] {
+    return this.readList(() => this.readPosition());
+  }
+
+  // MULTIPOINT accepts both "(1 2, 3 4)" and "((1 2), (3 4))"
+  private readMultiPointPosition(): Position {
+    if (this.peek() === '(') {
+      this.next();
+      const position = this.readPosition();
+      this.expect(')');
+      return position;
+    }
+    return this.readPosition();
+  }
+
+  readGeometry(): GeoJSONGeometry | null {
+    const type = this.next().toUpperCase();
+    const isEmpty = this.readDimensionsAndEmpty();
+
+    if (isEmpty) {
+      return null;
+    }
+
+    switch (type) {
+      case 'POINT':
+        return { type: 'Point', coordinates: this.readList(() => this.readPosition())[0] };
+      case 'LINESTRING':
+        return { type: 'LineString', coordinates: this.readPositions() };
+      case 'POLYGON':
+        return { type: 'Polygon', coordinates: this.readList(() => this.readPositions()) };
+      case 'MULTIPOINT':
+        return { type: 'MultiPoint', coordinates: this.readList(() => this.readMultiPointPosition()) };
+      case 'MULTILINESTRING':
+        return { type: 'MultiLineString', coordinates: this.readList(() => this.readPositions()) };
+      case 'MULTIPOLYGON':
+        return {
+          type: 'MultiPolygon',
+          coordinates: this.readList(() => this.readList(() => this.readPositions()))
+        };
+      case 'GEOMETRYCOLLECTION':
+        return {
+          type: 'GeometryCollection',
+          geometries: this.readList(() => this.readGeometry()).filter(Boolean)
+        };
+      default:
+        throw new Error(`Invalid WKT: unsupported geometry type "${type}"`);
+    }
+  }
+}
+
+export const parseWkt = (text: string): GeoJSONGeometry | null => {
+  return new WktReader(text).readGeometry();
+};
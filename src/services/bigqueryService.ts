@@ -1,14 +1,68 @@
-import { SchemaField } from '@/types';
+import { SchemaField, TableLayout, WriteDisposition } from '@/types';
 import { configService } from './configService';
 import { authService } from './authService';
+import { batchRanges, RETRYABLE_INSERT_REASONS } from '@/lib/streamingInsert';
+import { DEFAULT_LOCATION } from '@/lib/locations';
 
 interface BigQueryConfig {
   projectId: string;
   datasetId: string;
   tableId: string;
-  location?: string;
+  location?: string; // Where the dataset is; jobs run there and new datasets are created there
+  billingProjectId?: string; // Project load and query jobs run in, when not the table's own
 }
 
+// Partitioning and clustering are only applied when the load job creates the table
+export interface LoadJobOptions extends TableLayout {
+  writeDisposition?: WriteDisposition;
+  schemaUpdateOptions?: Array<'ALLOW_FIELD_ADDITION' | 'ALLOW_FIELD_RELAXATION'>;
+  maxBadRecords?: number;
+  ignoreUnknownValues?: boolean;
+}
+
+export interface InsertRowsOptions {
+  insertIdPrefix: string; // Lets BigQuery drop rows sent twice when a request is retried
+  ignoreUnknownValues?: boolean;
+  maxBadRecords?: number; // Rejected rows allowed before the remaining requests are skipped
+  onProgress?: (insertedRows: number) => void;
+  signal?: AbortSignal; // Aborts the request in flight and sends no more
+}
+
+export interface InsertRowsResult {
+  insertedRows: number;
+  rowErrors: Array<{index: number;errors: Array<{reason: string;message: string;location?: string;}>;}>;
+  stopped: boolean; // Rows were left unsent after more than maxBadRecords were rejected
+}
+
+const MAX_INSERT_ATTEMPTS = 4;
+
+// Waits out the exponential backoff before an insert retry, rejecting as soon as the signal is aborted
+const insertBackoff = (attempt: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new Error('Streaming insert was cancelled'));
+    return;
+  }
+  const cancel = () => {
+    clearTimeout(timer);
+    reject(new Error('Streaming insert was cancelled'));
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', cancel);
+    resolve();
+  }, 1000 * 2 ** attempt);
+  signal?.addEventListener('abort', cancel, { once: true });
+});
+
+// The API may report standard SQL names for tables created with DDL
+const TYPE_ALIASES: Record<string, SchemaField['type']> = {
+  INT64: 'INTEGER',
+  FLOAT64: 'FLOAT',
+  BOOL: 'BOOLEAN',
+  DECIMAL: 'NUMERIC',
+  BIGDECIMAL: 'BIGNUMERIC',
+  STRUCT: 'RECORD'
+};
+
 interface FileProcessingResult {
   recordCount: number;
   schema: SchemaField[];
@@ -34,7 +88,7 @@ export class BigQueryService {
     }
   }
 
-  async createDataset(projectId: string, datasetId: string, location: string = 'US'): Promise<void> {
+  async createDataset(projectId: string, datasetId: string, location: string = DEFAULT_LOCATION): Promise<void> {
     console.log('📁 Creating BigQuery dataset:', { projectId, datasetId, location });
 
     const url = `${this.baseUrl}/projects/${projectId}/datasets`;
@@ -74,12 +128,267 @@ export class BigQueryService {
     }
   }
 
-  async createTable(config: BigQueryConfig, schema: SchemaField[]): Promise<void> {
-    console.log('📊 Creating BigQuery table:', { ...config, schemaFields: schema?.length || 0 });
+  // TableFieldSchema for the REST API; RECORD fields carry their children in `fields`
+  private toFieldSchema(field: SchemaField): Record<string, unknown> {
+    return {
+      name: field.name,
+      type: field.type,
+      mode: field.mode || 'NULLABLE',
+      ...(field.description && { description: field.description }),
+      ...(field.type === 'RECORD' && { fields: (field.fields || []).map((child) => this.toFieldSchema(child)) })
+    };
+  }
+
+  private fromFieldSchema(field: {name: string;type: string;mode?: string;description?: string;fields?: unknown[];}): SchemaField {
+    return {
+      name: field.name,
+      type: TYPE_ALIASES[field.type] || field.type as SchemaField['type'],
+      mode: (field.mode || 'NULLABLE') as SchemaField['mode'],
+      ...(field.description && { description: field.description }),
+      ...(field.fields && { fields: field.fields.map((child) => this.fromFieldSchema(child as typeof field)) })
+    };
+  }
+
+  // timePartitioning, rangePartitioning and clustering as the table and load job resources expect them
+  private toLayoutResource(layout: TableLayout): Record<string, unknown> {
+    const { partitioning, clusteringFields } = layout;
+    return {
+      ...(partitioning && partitioning.kind !== 'range' && {
+        timePartitioning: {
+          type: partitioning.granularity || 'DAY',
+          ...(partitioning.kind === 'time' && { field: partitioning.field })
+        }
+      }),
+      ...(partitioning?.kind === 'range' && {
+        rangePartitioning: {
+          field: partitioning.field,
+          range: {
+            start: String(partitioning.range!.start),
+            end: String(partitioning.range!.end),
+            interval: String(partitioning.range!.interval)
+          }
+        }
+      }),
+      ...(clusteringFields && clusteringFields.length > 0 && { clustering: { fields: clusteringFields } })
+    };
+  }
+
+  private fromLayoutResource(table: {
+    timePartitioning?: {type?: string;field?: string;};
+    rangePartitioning?: {field: string;range: {start: string;end: string;interval: string;};};
+    clustering?: {fields: string[];};
+  }): TableLayout {
+    const { timePartitioning, rangePartitioning, clustering } = table;
+    return {
+      ...(timePartitioning && {
+        partitioning: {
+          kind: timePartitioning.field ? 'time' : 'ingestion',
+          field: timePartitioning.field,
+          granularity: (timePartitioning.type || 'DAY') as 'HOUR' | 'DAY' | 'MONTH' | 'YEAR'
+        }
+      }),
+      ...(rangePartitioning && {
+        partitioning: {
+          kind: 'range',
+          field: rangePartitioning.field,
+          range: {
+            start: Number(rangePartitioning.range.start),
+            end: Number(rangePartitioning.range.end),
+            interval: Number(rangePartitioning.range.interval)
+          }
+        }
+      }),
+      ...(clustering && { clusteringFields: clustering.fields })
+    };
+  }
+
+  // Returns null when the dataset does not exist
+  async getDataset(projectId: string, datasetId: string): Promise<{location?: string;} | null> {
+    console.log('📁 Reading BigQuery dataset:', { projectId, datasetId });
+
+    const url = `${this.baseUrl}/projects/${projectId}/datasets/${datasetId}`;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url);
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        const errorData = await response.json();
+        const errorMessage = errorData.error?.message || 'Unknown error';
+
+        console.error('❌ Dataset lookup failed:', errorMessage);
+        throw new Error(`Failed to read dataset: ${errorMessage}`);
+      }
+
+      const result = await response.json();
+      return { location: result.location };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
+  // Validates a query without running it. External sources let the query read NDJSON files in
+  // Cloud Storage by name, which checks the files are readable and match the schema.
+  async dryRunQuery(
+  projectId: string,
+  query: string,
+  externalSources: Record<string, {uri: string;schema?: SchemaField[];}> = {},
+  location?: string)
+  : Promise<{totalBytesProcessed?: string;}> {
+    console.log('🧪 Dry-running BigQuery query:', query);
+
+    const url = `${this.baseUrl}/projects/${projectId}/jobs`;
+    const tableDefinitions = Object.fromEntries(Object.entries(externalSources).map(([name, source]) => [name, {
+      sourceUris: [source.uri],
+      sourceFormat: 'NEWLINE_DELIMITED_JSON',
+      autodetect: !source.schema,
+      ...(source.schema && { schema: { fields: source.schema.map((field) => this.toFieldSchema(field)) } })
+    }]));
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url, {
+        method: 'POST',
+        body: JSON.stringify({
+          ...(location && { jobReference: { projectId, location } }),
+          configuration: {
+            dryRun: true,
+            query: {
+              query,
+              useLegacySql: false,
+              ...(Object.keys(tableDefinitions).length > 0 && { tableDefinitions })
+            }
+          }
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        const errorMessage = errorData.error?.message || 'Unknown error';
+
+        console.error('❌ Dry run failed:', errorMessage);
+        throw new Error(errorMessage);
+      }
+
+      const result = await response.json();
+      return { totalBytesProcessed: result.statistics?.totalBytesProcessed };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
+  // Returns null when the table does not exist
+  async getTable(config: BigQueryConfig): Promise<{schema: SchemaField[];numRows?: string;layout: TableLayout;description?: string;} | null> {
+    console.log('📋 Reading BigQuery table:', config);
+
+    const url = `${this.baseUrl}/projects/${config.projectId}/datasets/${config.datasetId}/tables/${config.tableId}`;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url);
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        const errorData = await response.json();
+        const errorMessage = errorData.error?.message || 'Unknown error';
+
+        console.error('❌ Table lookup failed:', errorMessage);
+        throw new Error(`Failed to read table: ${errorMessage}`);
+      }
+
+      const result = await response.json();
+      return {
+        schema: (result.schema?.fields || []).map((field) => this.fromFieldSchema(field)),
+        numRows: result.numRows,
+        layout: this.fromLayoutResource(result),
+        description: result.description
+      };
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
+  // Patches only the given properties; labels are merged with the ones already on the table
+  async updateTableMetadata(config: BigQueryConfig, metadata: {
+    description?: string;
+    friendlyName?: string;
+    labels?: Record<string, string>;
+    expirationTime?: Date;
+  }): Promise<void> {
+    console.log('🏷️ Updating BigQuery table metadata:', { ...config, ...metadata });
+
+    const url = `${this.baseUrl}/projects/${config.projectId}/datasets/${config.datasetId}/tables/${config.tableId}`;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url, {
+        method: 'PATCH',
+        body: JSON.stringify({
+          ...(metadata.description !== undefined && { description: metadata.description }),
+          ...(metadata.friendlyName && { friendlyName: metadata.friendlyName }),
+          ...(metadata.labels && { labels: metadata.labels }),
+          ...(metadata.expirationTime && { expirationTime: String(metadata.expirationTime.getTime()) })
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        const errorMessage = errorData.error?.message || 'Unknown error';
+
+        console.error('❌ Table metadata update failed:', errorMessage);
+        throw new Error(`Failed to update table metadata: ${errorMessage}`);
+      }
+
+      console.log('✅ Table metadata updated');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
+  async deleteTable(config: BigQueryConfig): Promise<void> {
+    console.log('🗑️ Deleting BigQuery table:', config);
+
+    const url = `${this.baseUrl}/projects/${config.projectId}/datasets/${config.datasetId}/tables/${config.tableId}`;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url, { method: 'DELETE' });
+
+      if (!response.ok && response.status !== 404) {
+        const errorData = await response.json();
+        const errorMessage = errorData.error?.message || 'Unknown error';
+
+        console.error('❌ Table deletion failed:', errorMessage);
+        throw new Error(`Failed to delete table: ${errorMessage}`);
+      }
+
+      console.log('✅ Table deleted');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
+  async createTable(config: BigQueryConfig, schema: SchemaField[], layout: TableLayout = {}): Promise<void> {
+    console.log('📊 Creating BigQuery table:', { ...config, schemaFields: schema?.length || 0, ...layout });
 
     // First ensure dataset exists
     try {
-      await this.createDataset(config.projectId, config.datasetId);
+      await this.createDataset(config.projectId, config.datasetId, config.location);
     } catch (error) {
       console.warn('⚠️ Dataset creation issue:', error);
     }
@@ -87,11 +396,7 @@ export class BigQueryService {
     const url = `${this.baseUrl}/projects/${config.projectId}/datasets/${config.datasetId}/tables`;
 
     const tableSchema = {
-      fields: schema.map((field) => ({
-        name: field.name,
-        type: field.type,
-        mode: field.mode || 'NULLABLE'
-      }))
+      fields: schema.map((field) => this.toFieldSchema(field))
     };
 
     try {
@@ -104,7 +409,7 @@ export class BigQueryService {
             tableId: config.tableId
           },
           schema: tableSchema,
-          description: 'Table created by GIS Processing Application'
+          ...this.toLayoutResource(layout)
         })
       });
 
@@ -130,7 +435,12 @@ export class BigQueryService {
     }
   }
 
-  async loadDataFromGCS(config: BigQueryConfig, gcsUri: string, schema?: SchemaField[]): Promise<string> {
+  async loadDataFromGCS(
+  config: BigQueryConfig,
+  gcsUri: string,
+  schema?: SchemaField[],
+  options: LoadJobOptions = {})
+  : Promise<string> {
     console.log('📥 Loading data from GCS to BigQuery:', {
       ...config,
       gcsUri,
@@ -138,12 +448,14 @@ export class BigQueryService {
     });
   
     const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    const url = `${this.baseUrl}/projects/${config.projectId}/jobs`;
+    const billingProjectId = config.billingProjectId || config.projectId;
+    const url = `${this.baseUrl}/projects/${billingProjectId}/jobs`;
   
     const jobConfig: any = {
       jobReference: {
-        projectId: config.projectId,
+        projectId: billingProjectId,
         jobId: jobId,
+        ...(config.location && { location: config.location }),
       },
       configuration: {
         load: {
@@ -153,17 +465,21 @@ export class BigQueryService {
             datasetId: config.datasetId,
             tableId: config.tableId,
           },
-          writeDisposition: 'WRITE_TRUNCATE',
+          writeDisposition: options.writeDisposition || 'WRITE_APPEND',
           createDisposition: 'CREATE_IF_NEEDED',
           sourceFormat: 'NEWLINE_DELIMITED_JSON',
           autodetect: !schema, // Autodetect if no schema is provided
+          ...(options.schemaUpdateOptions && { schemaUpdateOptions: options.schemaUpdateOptions }),
+          ...this.toLayoutResource(options),
+          ...(options.maxBadRecords && { maxBadRecords: options.maxBadRecords }),
+          ...(options.ignoreUnknownValues && { ignoreUnknownValues: true }),
         },
       },
     };
   
     if (schema) {
       jobConfig.configuration.load.schema = {
-        fields: schema,
+        fields: schema.map((field) => this.toFieldSchema(field)),
       };
     }
   
@@ -194,28 +510,183 @@ export class BigQueryService {
     }
   }
 
-  async getJobStatus(jobId: string): Promise<{
+  // Starts a standard SQL query job, such as a MERGE, and returns its ID for status checks
+  async startQueryJob(projectId: string, query: string, location?: string): Promise<string> {
+    console.log('🧮 Starting BigQuery query job:', query);
+
+    const jobId = `job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const url = `${this.baseUrl}/projects/${projectId}/jobs`;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url, {
+        method: 'POST',
+        body: JSON.stringify({
+          jobReference: { projectId, jobId, ...(location && { location }) },
+          configuration: {
+            query: {
+              query,
+              useLegacySql: false
+            }
+          }
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        const errorMessage = errorData.error?.message || 'Unknown error';
+
+        console.error('❌ BigQuery query job failed:', errorMessage);
+        throw new Error(`Failed to start query job: ${errorMessage}`);
+      }
+
+      console.log('✅ BigQuery query job started:', jobId);
+      return jobId;
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
+  // Replaces the table schema; BigQuery only accepts added columns and REQUIRED columns made NULLABLE
+  async updateTableSchema(config: BigQueryConfig, schema: SchemaField[]): Promise<void> {
+    console.log('🧬 Updating BigQuery table schema:', { ...config, fields: schema.length });
+
+    const url = `${this.baseUrl}/projects/${config.projectId}/datasets/${config.datasetId}/tables/${config.tableId}`;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url, {
+        method: 'PATCH',
+        body: JSON.stringify({ schema: { fields: schema.map((field) => this.toFieldSchema(field)) } })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        const errorMessage = errorData.error?.message || 'Unknown error';
+
+        console.error('❌ Table schema update failed:', errorMessage);
+        throw new Error(`Failed to update table schema: ${errorMessage}`);
+      }
+
+      console.log('✅ Table schema updated');
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
+  // Streams rows into an existing table with tabledata.insertAll. Each request is retried on
+  // transient failures, and rows held back by a partial failure are sent again without the
+  // rows BigQuery rejected.
+  async insertRows(
+  config: BigQueryConfig,
+  rows: Record<string, unknown>[],
+  options: InsertRowsOptions)
+  : Promise<InsertRowsResult> {
+    console.log('📨 Streaming rows into BigQuery:', { ...config, rows: rows.length });
+
+    const url = `${this.baseUrl}/projects/${config.projectId}/datasets/${config.datasetId}/tables/${config.tableId}/insertAll`;
+    const encoder = new TextEncoder();
+    const result: InsertRowsResult = { insertedRows: 0, rowErrors: [], stopped: false };
+
+    for (const range of batchRanges(rows.map((row) => encoder.encode(JSON.stringify(row)).length))) {
+      if (options.signal?.aborted) {
+        throw new Error('Streaming insert was cancelled');
+      }
+      if (result.rowErrors.length > (options.maxBadRecords || 0)) {
+        result.stopped = true;
+        break;
+      }
+
+      let pending = Array.from({ length: range.end - range.start }, (_, offset) => range.start + offset);
+      for (let attempt = 1; pending.length > 0; attempt++) {
+        let insertErrors: Array<{index: number;errors: Array<{reason: string;message: string;location?: string;}>;}> = [];
+        try {
+          const response = await this.makeAuthenticatedRequest(url, {
+            method: 'POST',
+            signal: options.signal,
+            body: JSON.stringify({
+              skipInvalidRows: false,
+              ignoreUnknownValues: !!options.ignoreUnknownValues,
+              rows: pending.map((index) => ({ insertId: `${options.insertIdPrefix}_${index}`, json: rows[index] }))
+            })
+          });
+
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => ({}));
+            const errorMessage = errorData.error?.message || `HTTP ${response.status}`;
+            // A table created moments ago can briefly be reported missing
+            const retryable = response.status === 404 || response.status === 429 || response.status >= 500;
+            if (!retryable || attempt >= MAX_INSERT_ATTEMPTS) {
+              console.error('❌ Streaming insert failed:', errorMessage);
+              throw new Error(`Failed to insert rows: ${errorMessage}`);
+            }
+            console.warn(`⚠️ Streaming insert attempt ${attempt} failed, retrying:`, errorMessage);
+            await insertBackoff(attempt, options.signal);
+            continue;
+          }
+
+          insertErrors = (await response.json()).insertErrors || [];
+        } catch (error) {
+          if (error instanceof Error && error.message.includes('authentication')) {
+            throw new Error('Authentication failed. Please sign in with Google OAuth.');
+          }
+          throw error;
+        }
+
+        // insertErrors indexes refer to the rows of this request
+        const failed = insertErrors.map((insertError) => ({ index: pending[insertError.index], errors: insertError.errors }));
+        const rejected = failed.filter((row) => row.errors.some((error) => !RETRYABLE_INSERT_REASONS.includes(error.reason)));
+        const retry = failed.filter((row) => !rejected.includes(row));
+
+        result.insertedRows += pending.length - failed.length;
+        result.rowErrors.push(...rejected);
+        options.onProgress?.(result.insertedRows);
+
+        if (retry.length > 0 && attempt >= MAX_INSERT_ATTEMPTS) {
+          result.rowErrors.push(...retry);
+          break;
+        }
+        if (retry.some((row) => row.errors.some((error) => error.reason !== 'stopped'))) {
+          await insertBackoff(attempt, options.signal);
+        }
+        pending = retry.map((row) => row.index);
+      }
+    }
+
+    console.log('✅ Streaming insert finished:', { insertedRows: result.insertedRows, rejectedRows: result.rowErrors.length });
+    return result;
+  }
+
+  // Jobs are looked up in the project they ran in. Jobs outside the US and EU multi-regions are only
+  // found when their location is given.
+  async getJobStatus(projectId: string, jobId: string, location?: string, signal?: AbortSignal): Promise<{
     status: 'PENDING' | 'RUNNING' | 'DONE';
-    errors?: Array<{message: string;reason: string;}>;
+    errorResult?: {message: string;reason: string;location?: string;};
+    errors?: Array<{message: string;reason: string;location?: string;}>;
     statistics?: {
       load?: {
         outputRows: string;
         outputBytes: string;
       };
+      query?: {
+        dmlStats?: {insertedRowCount?: string;updatedRowCount?: string;deletedRowCount?: string;};
+      };
     };
   }> {
-    console.log('🔍 Getting BigQuery job status:', jobId);
+    console.log('🔍 Getting BigQuery job status:', { projectId, jobId });
 
-    // Extract project ID from service account or use configured project
-    const projectId = configService.getConfig().gcpProjectId;
     if (!projectId) {
       throw new Error('Project ID is required for job status queries');
     }
 
-    const url = `${this.baseUrl}/projects/${projectId}/jobs/${jobId}`;
+    const url = `${this.baseUrl}/projects/${projectId}/jobs/${jobId}${location ? `?location=${encodeURIComponent(location)}` : ''}`;
 
     try {
-      const response = await this.makeAuthenticatedRequest(url);
+      const response = await this.makeAuthenticatedRequest(url, { signal });
 
       if (!response.ok) {
         const errorData = await response.json();
@@ -229,6 +700,7 @@ export class BigQueryService {
 
       return {
         status: result.status?.state || 'PENDING',
+        errorResult: result.status?.errorResult,
         errors: result.status?.errors,
         statistics: result.statistics
       };
@@ -240,11 +712,38 @@ export class BigQueryService {
     }
   }
 
+  // Asks BigQuery to stop a running job. Cancelling is asynchronous and a job that already finished
+  // keeps its results, so callers should still wait for the job to end.
+  async cancelJob(projectId: string, jobId: string, location?: string): Promise<void> {
+    console.log('🛑 Cancelling BigQuery job:', { projectId, jobId });
+
+    const url = `${this.baseUrl}/projects/${projectId}/jobs/${jobId}/cancel${location ? `?location=${encodeURIComponent(location)}` : ''}`;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url, { method: 'POST' });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = errorData.error?.message || `HTTP ${response.status}`;
+
+        console.error('❌ BigQuery job cancellation failed:', errorMessage);
+        throw new Error(`Failed to cancel job: ${errorMessage}`);
+      }
+
+      console.log('✅ BigQuery job cancellation requested:', jobId);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
   async queryTable(config: BigQueryConfig, limit: number = 1000): Promise<any[]> {
     const query = `SELECT * FROM \`${config.projectId}.${config.datasetId}.${config.tableId}\` LIMIT ${limit}`;
     console.log('🔍 Querying BigQuery table:', query);
 
-    const url = `${this.baseUrl}/projects/${config.projectId}/queries`;
+    const url = `${this.baseUrl}/projects/${config.billingProjectId || config.projectId}/queries`;
 
     try {
       const response = await this.makeAuthenticatedRequest(url, {
@@ -273,6 +772,49 @@ export class BigQueryService {
     }
   }
 
+  // Runs a small query and waits for its rows, keyed by column name. Values come back as BigQuery
+  // returns them, as strings.
+  async runQuery(projectId: string, query: string, location?: string): Promise<Array<Record<string, string | null>>> {
+    console.log('🔍 Running BigQuery query:', query);
+
+    const url = `${this.baseUrl}/projects/${projectId}/queries`;
+
+    try {
+      const response = await this.makeAuthenticatedRequest(url, {
+        method: 'POST',
+        body: JSON.stringify({
+          query,
+          useLegacySql: false,
+          timeoutMs: 60000,
+          ...(location && { location })
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        const errorMessage = errorData.error?.message || `HTTP ${response.status}`;
+
+        console.error('❌ BigQuery query failed:', errorMessage);
+        throw new Error(`Query failed: ${errorMessage}`);
+      }
+
+      const result = await response.json();
+      if (!result.jobComplete) {
+        throw new Error('Query did not finish in time');
+      }
+
+      const fields: Array<{name: string;}> = result.schema?.fields || [];
+      return (result.rows || []).map((row: {f: Array<{v: string | null;}>;}) =>
+      Object.fromEntries(fields.map((field, index) => [field.name, row.f[index]?.v ?? null]))
+      );
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('authentication')) {
+        throw new Error('Authentication failed. Please sign in with Google OAuth.');
+      }
+      throw error;
+    }
+  }
+
   async testConnection(projectId?: string): Promise<{
     success: boolean;
     error?: string;
@@ -37,7 +37,7 @@ class ConfigService {
       bigQueryDefaultDataset: import.meta.env.VITE_BIGQUERY_DEFAULT_DATASET,
       enableRealProcessing: import.meta.env.VITE_ENABLE_REAL_PROCESSING === 'true',
       maxFileSize: parseInt(import.meta.env.VITE_MAX_FILE_SIZE || '100', 10),
-      supportedFormats: ['zip', 'shp', 'geojson', 'kml'],
+      supportedFormats: ['zip', 'shp', 'geojson', 'json', 'csv', 'kml', 'kmz', 'gpkg'],
       authMethod: import.meta.env.VITE_AUTH_METHOD as any || 'oauth', // Default to OAuth
       serviceAccountKey: import.meta.env.VITE_SERVICE_ACCOUNT_KEY,
       // Override with saved configuration
@@ -1,20 +1,42 @@
-import { ProcessingJob, SchemaField } from '@/types';
+import { ColumnCoercionReport, ColumnInferenceSummary, ColumnMapping, FilePreview, FileProcessingOptions, GeometryValidationReport, ProcessingJob, SchemaField } from '@/types';
 import { gcsService } from './gcsService';
-import shp from 'shpjs';
+import { listShapefileLayers } from '@/lib/shapefile';
+import { listGeoPackageLayers } from '@/lib/geopackage';
+import { ConvertedFile, convertFileToNdjson, FileWorkerMessage, FileWorkerRequest, isKmlFile, previewFileRecords } from '@/lib/fileParsing';
+
+export interface ProcessedFileResult {
+  processedFileUrl?: string; // Unset when the rows are kept in memory for streaming
+  processedFileName: string;
+  processedRows?: Blob; // The NDJSON, when it isn't staged in Cloud Storage
+  recordCount: number;
+  schema: SchemaField[];
+  sourceCrs?: string;
+  layerName?: string;
+  geometryValidation?: GeometryValidationReport;
+  coercion?: ColumnCoercionReport[];
+  columnMapping?: ColumnMapping[];
+  schemaInference?: ColumnInferenceSummary[];
+  rowOffsets?: number[];
+}
+
+type FileWorkerResult = Extract<FileWorkerMessage, {type: 'done' | 'preview';}>;
+
+interface ConversionOutput {
+  converted: ConvertedFile;
+  parts: Blob[];
+}
 
 // Enhanced file processing service with real zip handling
 export class FileProcessingService {
 
   async processFile(
   file: File,
-  schema: any,
-  onProgress?: (progress: number) => void)
-  : Promise<{
-    processedFileUrl: string;
-    processedFileName: string;
-    recordCount: number;
-    schema: SchemaField[];
-  }> {
+  schema: SchemaField[] | undefined,
+  onProgress?: (progress: number) => void,
+  options: FileProcessingOptions = {},
+  signal?: AbortSignal,
+  staging: 'gcs' | 'memory' = 'gcs')
+  : Promise<ProcessedFileResult> {
     console.log('🔄 Starting file processing for:', file?.name || 'undefined file');
 
     if (!file) {
@@ -32,223 +54,193 @@ export class FileProcessingService {
     onProgress?.(10);
 
     try {
-      if (file.name.endsWith('.zip')) {
-        return await this.processZipFile(file, schema, onProgress);
-      } else if (file.name.endsWith('.json')) {
-        return await this.processJsonFile(file, schema, onProgress);
-      } else if (file.name.endsWith('.csv')) {
-        return await this.processCsvFile(file, schema, onProgress);
-      } else {
-        throw new Error(`Unsupported file type: ${file.name}`);
-      }
+      // Conversion covers 10-90%, staging the processed file the rest
+      const reportConversion = (fraction: number) => onProgress?.(10 + fraction * 80);
+      const { converted, parts } = isKmlFile(file.name) ?
+      await this.convertOnMainThread(file, options, reportConversion) :
+      await this.convertInWorker(file, options, reportConversion, signal);
+
+      // Layers inside ZIP folders are named by their path
+      const baseName = file.name.replace(/\.[^.]+$/, '') + (options.layerName ? `_${converted.layerName.replace(/\//g, '_')}` : '');
+      const { processedFileUrl, processedFileName, processedRows } = staging === 'memory' ?
+      this.keepNdjsonParts(parts, baseName, onProgress) :
+      await this.uploadNdjsonParts(parts, baseName, onProgress, signal);
+
+      console.log('✅ File processed successfully:', file.name, `(${converted.recordCount} records)`);
+      return {
+        processedFileUrl,
+        processedFileName,
+        processedRows,
+        recordCount: converted.recordCount,
+        schema: converted.schema,
+        sourceCrs: converted.sourceCrs,
+        layerName: converted.layerName,
+        geometryValidation: converted.geometryValidation,
+        coercion: converted.coercion,
+        columnMapping: converted.columnMapping,
+        schemaInference: converted.schemaInference,
+        rowOffsets: converted.rowOffsets,
+      };
     } catch (error) {
       console.error('❌ File processing failed:', error);
       throw error;
     }
   }
 
-  private async processZipFile(
-    file: File,
-    schema: any,
-    onProgress?: (progress: number) => void
-  ): Promise<{
-    processedFileUrl: string;
-    processedFileName: string;
-    recordCount: number;
-    schema: SchemaField[];
-  }> {
-    console.log('📦 Processing ZIP file:', file.name);
-  
-    if (!file || !file.name) {
-      throw new Error('Invalid file for ZIP processing');
+  // Lists the shapefile layers of a ZIP or the feature tables of a GeoPackage so each one
+  // can be mapped to its own table
+  async listLayers(file: File): Promise<string[]> {
+    if (file?.name?.endsWith('.zip')) {
+      return listShapefileLayers(await file.arrayBuffer());
     }
-  
-    onProgress?.(20);
-  
-    const timestamp = Date.now();
-    const baseName = file.name.replace('.zip', '');
-    const processedFileName = `${timestamp}_${baseName}_processed.newline_delimited_json`;
-  
-    const arrayBuffer = await file.arrayBuffer();
-    const geojson = await shp(arrayBuffer);
-
-    const records = (geojson as any).features.map((feature: any) => {
-        const { bbox, ...restOfGeometry } = feature.geometry;
-        const properties = feature.properties;
-        return { ...properties, geometry: JSON.stringify(restOfGeometry) };
-    });
-  
-    onProgress?.(70);
-
-    const inferredSchema = this.inferSchema(records);
-  
-    const ndjsonContent = records.map((record) => JSON.stringify(record)).join('\n');
-    onProgress?.(90);
-  
-    const blob = new Blob([ndjsonContent], { type: 'application/json' });
-    const processedFile = new File([blob], processedFileName, { type: 'application/json' });
-  
-    const uploadResult = await this.uploadProcessedFileToGCS(processedFile);
-    onProgress?.(100);
-  
-    console.log('✅ ZIP file processed successfully');
-    return {
-      processedFileUrl: uploadResult.gcsUri,
-      processedFileName,
-      recordCount: records.length,
-      schema: inferredSchema,
-    };
+    if (file?.name?.endsWith('.gpkg')) {
+      return listGeoPackageLayers(await file.arrayBuffer());
+    }
+    return [];
   }
 
-  private async processJsonFile(
+  // Parses and prepares the file like a load but returns a preview instead of uploading anything
+  async previewFile(
   file: File,
-  schema: any,
-  onProgress?: (progress: number) => void)
-  : Promise<{processedFileUrl: string;processedFileName: string;recordCount: number; schema: SchemaField[]}> {
-    console.log('📄 Processing JSON file:', file.name);
-
-    if (!file || !file.name) {
-      throw new Error('Invalid file for JSON processing');
+  options: FileProcessingOptions = {},
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal)
+  : Promise<FilePreview> {
+    console.log('🔎 Previewing file:', file.name, options.layerName ? `(layer ${options.layerName})` : '');
+
+    const reportProgress = (fraction: number) => onProgress?.(fraction * 100);
+    if (isKmlFile(file.name)) {
+      const preview = await previewFileRecords(file.name, await file.arrayBuffer(), options);
+      reportProgress(1);
+      return preview;
     }
 
-    onProgress?.(30);
-
-    const content = await file.text();
-    let data;
-
-    try {
-      data = JSON.parse(content);
-    } catch (error) {
-      throw new Error('Invalid JSON format');
+    const message = await this.runWorker({ file, options, mode: 'preview' }, reportProgress, () => undefined, signal);
+    if (message.type !== 'preview') {
+      throw new Error('File processing worker returned no preview');
     }
-
-    onProgress?.(60);
-
-    const records = Array.isArray(data) ? data : [data];
-
-    const inferredSchema = this.inferSchema(records);
-
-    const ndjsonContent = records.map((record) => JSON.stringify(record)).join('\n');
-
-    const timestamp = Date.now();
-    const baseName = file.name.replace('.json', '');
-    const processedFileName = `${timestamp}_${baseName}_processed.newline_delimited_json`;
-
-    const blob = new Blob([ndjsonContent], { type: 'application/json' });
-    const processedFile = new File([blob], processedFileName, { type: 'application/json' });
-
-    onProgress?.(80);
-    const uploadResult = await this.uploadProcessedFileToGCS(processedFile);
-    onProgress?.(100);
-
-    console.log('✅ JSON file processed successfully');
-    return {
-      processedFileUrl: uploadResult.gcsUri,
-      processedFileName,
-      recordCount: records.length,
-      schema: inferredSchema,
-    };
+    return message.preview;
   }
 
-  private async processCsvFile(
+  // Parsing, transformation and serialization run in a worker so large files don't block the UI
+  private async convertInWorker(
   file: File,
-  schema: any,
-  onProgress?: (progress: number) => void)
-  : Promise<{processedFileUrl: string;processedFileName: string;recordCount: number; schema: SchemaField[]}> {
-    console.log('📊 Processing CSV file:', file.name);
-
-    if (!file || !file.name) {
-      throw new Error('Invalid file for CSV processing');
+  options: FileProcessingOptions,
+  onProgress: (fraction: number) => void,
+  signal?: AbortSignal)
+  : Promise<ConversionOutput> {
+    console.log('🧵 Processing file in worker:', file.name);
+
+    const parts: Blob[] = [];
+    const message = await this.runWorker({ file, options, mode: 'convert' }, onProgress, (part) => parts.push(part), signal);
+    if (message.type !== 'done') {
+      throw new Error('File processing worker returned no result');
     }
+    return { converted: message.result, parts };
+  }
 
-    onProgress?.(30);
-
-    const content = await file.text();
-    const lines = content.split('\n').filter((line) => line.trim());
+  // Resolves with the worker's final message. Aborting the signal terminates the worker.
+  private runWorker(
+  request: FileWorkerRequest,
+  onProgress: (fraction: number) => void,
+  onBatch: (part: Blob) => void,
+  signal?: AbortSignal)
+  : Promise<FileWorkerResult> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error('File processing was cancelled'));
+        return;
+      }
 
-    if (lines.length === 0) {
-      throw new Error('CSV file is empty');
-    }
+      const worker = new Worker(new URL('../workers/fileProcessing.worker.ts', import.meta.url), { type: 'module' });
+
+      const finish = () => {
+        worker.terminate();
+        signal?.removeEventListener('abort', handleAbort);
+      };
+      const handleAbort = () => {
+        finish();
+        console.log('🛑 File processing cancelled:', request.file.name);
+        reject(new Error('File processing was cancelled'));
+      };
+      signal?.addEventListener('abort', handleAbort);
+
+      worker.onmessage = (event: MessageEvent<FileWorkerMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+          case 'progress':
+            onProgress(message.progress);
+            break;
+          case 'batch':
+            onBatch(message.part);
+            break;
+          case 'done':
+          case 'preview':
+            finish();
+            resolve(message);
+            break;
+          case 'error':
+            finish();
+            reject(new Error(message.message));
+            break;
+        }
+      };
 
-    onProgress?.(50);
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(`File processing worker failed: ${event.message}`));
+      };
 
-    const headers = lines[0].split(',').map((h) => h.trim().replace(/"/g, ''));
-    const records = lines.slice(1).map((line) => {
-      const values = line.split(',').map((v) => v.trim().replace(/"/g, ''));
-      const record: any = {};
-      headers.forEach((header, index) => {
-        record[header] = values[index] || null;
-      });
-      return record;
+      worker.postMessage(request);
     });
+  }
 
-    onProgress?.(70);
-
-    const inferredSchema = this.inferSchema(records);
+  // KML parsing relies on DOMParser, which is not available inside workers
+  private async convertOnMainThread(
+  file: File,
+  options: FileProcessingOptions,
+  onProgress: (fraction: number) => void)
+  : Promise<ConversionOutput> {
+    console.log('🗺️ Processing KML file:', file.name);
+
+    const parts: Blob[] = [];
+    const content = await file.arrayBuffer();
+    const converted = await convertFileToNdjson(file.name, content, options, {
+      onBatch: (ndjson) => parts.push(new Blob([ndjson], { type: 'application/json' })),
+      onProgress
+    });
+    return { converted, parts };
+  }
 
-    const ndjsonContent = records.map((record) => JSON.stringify(record)).join('\n');
+  private keepNdjsonParts(
+  parts: Blob[],
+  baseName: string,
+  onProgress?: (progress: number) => void)
+  : {processedFileUrl?: string;processedFileName: string;processedRows: Blob;} {
+    const processedRows = new Blob(parts, { type: 'application/json' });
+    onProgress?.(100);
+    return { processedFileName: `${Date.now()}_${baseName}_processed.newline_delimited_json`, processedRows };
+  }
 
+  private async uploadNdjsonParts(
+  parts: Blob[],
+  baseName: string,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal)
+  : Promise<{processedFileUrl: string;processedFileName: string;processedRows?: Blob;}> {
     const timestamp = Date.now();
-    const baseName = file.name.replace('.csv', '');
     const processedFileName = `${timestamp}_${baseName}_processed.newline_delimited_json`;
 
-    const blob = new Blob([ndjsonContent], { type: 'application/json' });
-    const processedFile = new File([blob], processedFileName, { type: 'application/json' });
+    onProgress?.(90);
+    const processedFile = new File(parts, processedFileName, { type: 'application/json' });
 
-    onProgress?.(85);
-    const uploadResult = await this.uploadProcessedFileToGCS(processedFile);
+    const uploadResult = await this.uploadProcessedFileToGCS(processedFile, signal);
     onProgress?.(100);
 
-    console.log('✅ CSV file processed successfully');
-    return {
-      processedFileUrl: uploadResult.gcsUri,
-      processedFileName,
-      recordCount: records.length,
-      schema: inferredSchema,
-    };
-  }
-
-  private inferSchema(records: any[]): SchemaField[] {
-    if (records.length === 0) {
-      return [];
-    }
-  
-    const schema: { [key: string]: { type: SchemaField['type']; modes: Set<SchemaField['mode']> } } = {};
-  
-    records.forEach(record => {
-      for (const key in record) {
-        if (!schema[key]) {
-          schema[key] = { type: 'STRING', modes: new Set() };
-        }
-  
-        const value = record[key];
-        if (value === null || value === undefined) {
-          schema[key].modes.add('NULLABLE');
-        } else {
-          schema[key].modes.add('REQUIRED');
-          if (typeof value === 'number') {
-            if (Number.isInteger(value)) {
-              schema[key].type = 'INTEGER';
-            } else {
-              schema[key].type = 'FLOAT';
-            }
-          } else if (typeof value === 'boolean') {
-            schema[key].type = 'BOOLEAN';
-          } else if (key === 'geometry') {
-            schema[key].type = 'GEOGRAPHY';
-          }
-        }
-      }
-    });
-  
-    return Object.keys(schema).map(key => ({
-      name: key,
-      type: schema[key].type,
-      mode: schema[key].modes.has('NULLABLE') ? 'NULLABLE' : 'REQUIRED',
-    }));
+    return { processedFileUrl: uploadResult.gcsUri, processedFileName };
   }
 
-  private async uploadProcessedFileToGCS(file: File): Promise<{ gcsUri: string }> {
+  private async uploadProcessedFileToGCS(file: File, signal?: AbortSignal): Promise<{ gcsUri: string }> {
     console.log('☁️ Uploading processed file to GCS:', file.name);
 
     if (!file || !file.name) {
@@ -256,7 +248,7 @@ export class FileProcessingService {
     }
 
     try {
-      const uploadResult = await gcsService.uploadFile(file);
+      const uploadResult = await gcsService.uploadFile(file, undefined, undefined, signal);
       console.log('✅ File uploaded to GCS:', uploadResult.gcsUri);
       return { gcsUri: uploadResult.gcsUri };
     } catch (error) {
@@ -265,6 +257,13 @@ export class FileProcessingService {
     }
   }
 
+  // Uploads rows kept in memory for streaming, so they can be batch loaded after all
+  async stageProcessedRows(processingResult: ProcessedFileResult, signal?: AbortSignal): Promise<ProcessedFileResult> {
+    const processedFile = new File([processingResult.processedRows!], processingResult.processedFileName, { type: 'application/json' });
+    const uploadResult = await this.uploadProcessedFileToGCS(processedFile, signal);
+    return { ...processingResult, processedFileUrl: uploadResult.gcsUri, processedRows: undefined };
+  }
+
   async validateProcessedFile(gcsUri: string): Promise<boolean> {
     console.log('🔍 Validating processed file exists:', gcsUri);
 
@@ -65,7 +65,7 @@ export class GCSService {
     return error.message || 'Unknown error occurred';
   }
 
-  async uploadFile(file: File, bucketName?: string, destinationPath?: string): Promise<GCSUploadResult> {
+  async uploadFile(file: File, bucketName?: string, destinationPath?: string, signal?: AbortSignal): Promise<GCSUploadResult> {
     console.log('📤 Starting GCS file upload:', {
       fileName: file?.name || 'undefined',
       fileSize: file?.size || 0,
@@ -112,7 +112,7 @@ export class GCSService {
     try {
       console.log('🪣 Using bucket:', bucket);
 
-      const uploadResult = await this.performResumableUpload(file, bucket, fileName);
+      const uploadResult = await this.performResumableUpload(file, bucket, fileName, signal);
 
       console.log('✅ File upload completed successfully:', uploadResult.gcsUri);
       return uploadResult;
@@ -136,7 +136,9 @@ export class GCSService {
     }
   }
 
-  private async performResumableUpload(file: File, bucket: string, fileName: string): Promise<GCSUploadResult> {
+  // Aborting the signal stops the request in flight and ends the upload session, so no partial
+  // object is left behind
+  private async performResumableUpload(file: File, bucket: string, fileName: string, signal?: AbortSignal): Promise<GCSUploadResult> {
     console.log('🔄 Starting resumable upload...');
 
     if (!file) {
@@ -159,6 +161,7 @@ export class GCSService {
 
     const initResponse = await this.makeAuthenticatedRequest(initUrl, {
       method: 'POST',
+      signal,
       headers: {
         'Content-Type': 'application/json',
         'X-Upload-Content-Type': file.type || 'application/octet-stream',
@@ -185,13 +188,26 @@ export class GCSService {
 
     console.log('🔗 Upload URL obtained, uploading file...');
 
-    const uploadResponse = await fetch(uploadUrl, {
-      method: 'PUT',
-      headers: {
-        'Content-Type': file.type || 'application/octet-stream'
-      },
-      body: file
-    });
+    let uploadResponse: Response;
+    try {
+      uploadResponse = await fetch(uploadUrl, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': file.type || 'application/octet-stream'
+        },
+        body: file,
+        signal
+      });
+    } catch (error) {
+      if (signal?.aborted) {
+        // Cloud Storage answers a cancelled session with 499
+        await fetch(uploadUrl, { method: 'DELETE' }).catch((cancelError) =>
+        console.warn('⚠️ Could not cancel the upload session:', cancelError)
+        );
+        console.log('🛑 Upload cancelled:', fileName);
+      }
+      throw error;
+    }
 
     if (!uploadResponse.ok) {
       let errorMessage: string;
@@ -328,6 +344,65 @@ export class GCSService {
     return permissions;
   }
 
+  // Location of the bucket as Cloud Storage reports it, such as US, EU, EUR4 or EUROPE-WEST2
+  async getBucketLocation(bucket: string): Promise<string> {
+    const response = await this.makeAuthenticatedRequest(`${this.baseUrl}/b/${bucket}?fields=location`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(this.parseGCSError({ message: errorData.error?.message || `Bucket ${bucket} is not accessible (${response.status})` }));
+    }
+
+    return (await response.json()).location;
+  }
+
+  // Returns the permissions the signed-in user is missing on the bucket
+  async testBucketPermissions(bucket: string, permissions: string[]): Promise<string[]> {
+    const query = permissions.map((permission) => `permissions=${encodeURIComponent(permission)}`).join('&');
+    const response = await this.makeAuthenticatedRequest(`${this.baseUrl}/b/${bucket}/iam/testPermissions?${query}`);
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(this.parseGCSError({ message: errorData.error?.message || `Bucket ${bucket} is not accessible (${response.status})` }));
+    }
+
+    const granted: string[] = (await response.json()).permissions || [];
+    return permissions.filter((permission) => !granted.includes(permission));
+  }
+
+  // Reads bytes start..end (inclusive) of a gs:// object as text
+  async readRange(gcsUri: string, start: number, end: number): Promise<string> {
+    const match = gcsUri.match(/^gs:\/\/([^/]+)\/(.+)$/);
+    if (!match) {
+      throw new Error(`Invalid GCS URI: ${gcsUri}`);
+    }
+    const [, bucket, objectName] = match;
+
+    const url = `${this.baseUrl}/b/${bucket}/o/${encodeURIComponent(objectName)}?alt=media`;
+    const response = await this.makeAuthenticatedRequest(url, { headers: { Range: `bytes=${start}-${end}` } });
+
+    if (!response.ok) {
+      throw new Error(this.parseGCSError({ message: `Failed to read ${gcsUri} (${response.status})` }));
+    }
+    return response.text();
+  }
+
+  // Deletes a gs:// object; one that is already gone counts as deleted
+  async deleteObject(gcsUri: string): Promise<void> {
+    const match = gcsUri.match(/^gs:\/\/([^/]+)\/(.+)$/);
+    if (!match) {
+      throw new Error(`Invalid GCS URI: ${gcsUri}`);
+    }
+    const [, bucket, objectName] = match;
+
+    const response = await this.makeAuthenticatedRequest(`${this.baseUrl}/b/${bucket}/o/${encodeURIComponent(objectName)}`, { method: 'DELETE' });
+
+    if (!response.ok && response.status !== 404) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(this.parseGCSError({ message: errorData.error?.message || `Failed to delete ${gcsUri} (${response.status})` }));
+    }
+  }
+
   async createSignedUrl(bucket: string, fileName: string, action: 'read' | 'write' = 'write'): Promise<string> {
     console.log('🔗 Creating signed URL:', { bucket, fileName, action });
 
@@ -63,6 +63,11 @@ class DynamicJobService {
     return service.subscribeToJobUpdates(jobId, callback);
   }
 
+  async cancelJob(jobId: string): Promise<void> {
+    const service = this.getCurrentService();
+    return service.cancelJob(jobId);
+  }
+
   // Helper method to check if we're in production mode
   isUsingProductionService(): boolean {
     return configService.isRealProcessingEnabled();
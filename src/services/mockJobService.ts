@@ -17,9 +17,12 @@ const processJob = async (job: Job): Promise<void> => {
     }
   };
 
+  // A cancelled job keeps its status while the simulation runs out
+  const isCancelled = () => jobs.find((j) => j.id === job.id)?.status === 'cancelled';
+
   const updateStatus = (status: Job['status'], progress: number = 0) => {
     const jobIndex = jobs.findIndex((j) => j.id === job.id);
-    if (jobIndex !== -1) {
+    if (jobIndex !== -1 && !isCancelled()) {
       jobs[jobIndex].status = status;
       jobs[jobIndex].progress = progress;
     }
@@ -97,7 +100,7 @@ const processJob = async (job: Job): Promise<void> => {
     // Complete the job
     updateStatus('completed', 100);
     const finalJobIndex = jobs.findIndex((j) => j.id === job.id);
-    if (finalJobIndex !== -1) {
+    if (finalJobIndex !== -1 && !isCancelled()) {
       jobs[finalJobIndex].endTime = new Date();
       addLog('info', `✅ Job completed successfully! ${mockRecordCount} records processed.`);
       addLog('warn', '⚠️  IMPORTANT: This is a demo simulation. No actual data was loaded to BigQuery.');
@@ -109,7 +112,7 @@ const processJob = async (job: Job): Promise<void> => {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
     const jobIndex = jobs.findIndex((j) => j.id === job.id);
 
-    if (jobIndex !== -1) {
+    if (jobIndex !== -1 && !isCancelled()) {
       jobs[jobIndex].status = 'failed';
       jobs[jobIndex].endTime = new Date();
       jobs[jobIndex].errorMessage = errorMessage;
@@ -162,6 +165,9 @@ export const jobService = {
       targetTable: config.targetTable,
       schema: config.customSchema,
       integerColumns: config.integerColumns,
+      writeDisposition: config.writeDisposition,
+      partitioning: config.partitioning,
+      clusteringFields: config.clusteringFields,
       startTime: new Date(),
       logs: [{
         timestamp: new Date(),
@@ -192,6 +198,19 @@ export const jobService = {
     return jobs.find((job) => job.id === jobId) || null;
   },
 
+  async cancelJob(jobId: string): Promise<void> {
+    const job = jobs.find((j) => j.id === jobId);
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    if (['completed', 'validated', 'failed', 'cancelled'].includes(job.status)) {
+      throw new Error('Job is not running');
+    }
+    job.status = 'cancelled';
+    job.endTime = new Date();
+    job.logs.push({ timestamp: new Date(), level: 'warn', message: 'Job cancelled' });
+  },
+
   // Real-time updates simulation
   subscribeToJobUpdates(jobId: string, callback: (job: Job) => void): () => void {
     const interval = setInterval(() => {
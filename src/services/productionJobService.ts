@@ -1,13 +1,72 @@
-import { Job, JobStatus, ProcessingJob, ProcessingConfig, JobLog, SchemaField } from '@/types';
-import { bigqueryService } from './bigqueryService';
-import { fileProcessingService } from './fileProcessingService';
+import { Job, JobStatus, ProcessingJob, ProcessingConfig, JobLog, SchemaField, FileProcessingOptions, LayerTarget, LayerLoadStep, TableLoadOptions, ColumnMapping, BigQueryJobStatus, LoadRowError, TableLayout, ValidationCheck, MergeResult, TableReference } from '@/types';
+import { bigqueryService, LoadJobOptions } from './bigqueryService';
+import { fileProcessingService, ProcessedFileResult } from './fileProcessingService';
 import { gcsService } from './gcsService';
 import { jobService as mockJobService } from './mockJobService';
 import { configService } from './configService';
+import { authService } from './authService';
+import { toFileProcessingOptions, toTableLoadOptions } from '@/lib/processingOptions';
+import { diffSchemas, formatSchemaChange } from '@/lib/schemaDiff';
+import { formatTableLayout, hasTableLayout, renameTableLayout, sameTableLayout, validateTableLayout } from '@/lib/tableLayout';
+import { isSummaryError, parseLoadError, rowIndexAt, sourceFeatureIndex } from '@/lib/loadErrors';
+import { resolveLoadMethod } from '@/lib/streamingInsert';
+import { buildDuplicateKeyQuery, buildMergeStatement, describeMergeOptions, validateMergeOptions } from '@/lib/mergeStatement';
+import { DEFAULT_LOCATION, isBucketLocationCompatible, sameLocation } from '@/lib/locations';
+import { formatTableReference, parseTableReference, qualifiedTableName } from '@/lib/tableReference';
+import { describeProvenance, provenanceLabels, TableProvenance, validateTableMetadata, withProvenance } from '@/lib/tableMetadata';
+
+// Where a load job read its rows from, used to trace row errors back to source features
+interface LoadErrorSource {
+  uri: string;
+  rowOffsets?: number[];
+  droppedFeatureIndexes?: number[];
+  layerName?: string;
+}
+
+// A target table and where its jobs run: in the job's billing project, at the dataset's location
+interface BigQueryTarget extends TableReference {
+  billingProjectId: string;
+  location?: string;
+}
+
+// What loading into a target table involves, worked out before anything is changed
+interface TargetTablePlan {
+  tableName: string;
+  exists: boolean;
+  schema?: SchemaField[]; // Load schema, BigQuery auto-detects when unset
+  loadOptions: LoadJobOptions;
+  create?: {schema: SchemaField[];layout: TableLayout;replace: boolean;}; // Table to create, after deleting the existing one when replacing
+  notes: Array<{level: 'INFO' | 'WARN';message: string;}>;
+}
+
+const MAX_TRACED_ROWS = 50; // Rejected rows read back from Cloud Storage for their attributes
+const MAX_TRACED_ROW_BYTES = 64 * 1024;
+const MAX_LOGGED_ROW_ERRORS = 5; // The rest are only in the Load Errors panel
+const STAGING_TABLE_LIFETIME_MS = 24 * 60 * 60 * 1000; // Merge staging tables expire if they can't be deleted
+const CANCEL_POLL_ATTEMPTS = 15; // Checks, 2 seconds apart, for a cancelled BigQuery job to end
+const STREAMING_TABLE_CHANGE_ERROR = "Streaming inserts can't write to a table this load creates, replaces or changes the schema of; use a batch load";
+
+// Streamed rows can be dropped by a table that was only just created or recreated, and inserts can't
+// change the schema, so streaming only goes into an existing table that the load leaves as it is
+const canStreamInto = (plan: TargetTablePlan): boolean => plan.exists && !plan.create && !plan.loadOptions.schemaUpdateOptions;
+
+// Resolves after the delay, or as soon as the signal is aborted
+const wait = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve) => {
+  const finish = () => {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', finish);
+    resolve();
+  };
+  const timer = setTimeout(finish, ms);
+  signal?.addEventListener('abort', finish);
+});
 
 class ProductionJobService {
   private jobs: Map<string, ProcessingJob> = new Map();
   private jobUpdateCallbacks: Set<() => void> = new Set();
+  private abortControllers: Map<string, AbortController> = new Map();
+  private runs: Map<string, Promise<void>> = new Map(); // Settle once a job's steps and clean-up are done
+  private stagedObjects: Map<string, string[]> = new Map(); // Cloud Storage files written by running jobs
 
   private log(level: 'INFO' | 'WARN' | 'ERROR', jobId: string, message: string) {
     console.log(`[${level}] Job ${jobId}: ${message}`);
@@ -71,9 +130,33 @@ class ProductionJobService {
       throw new Error('Target table is required');
     }
 
-    const [datasetId, tableId] = config.targetTable.split('.');
-    if (!datasetId || !tableId) {
-      throw new Error('Target table must be in format: dataset.table');
+    const target = parseTableReference(config.targetTable, config.gcpProjectId);
+    if (!target) {
+      throw new Error('Target table must be in format: dataset.table or project.dataset.table');
+    }
+
+    const layerTargets = config.layerTargets?.filter((target) => target.selected) || [];
+    if (config.layerTargets?.length > 0 && layerTargets.length === 0) {
+      throw new Error('At least one layer must be selected');
+    }
+    layerTargets.forEach((target) => {
+      if (!parseTableReference(target.targetTable, config.gcpProjectId)) {
+        throw new Error(`Target table for layer ${target.layerName} must be in format: dataset.table or project.dataset.table`);
+      }
+    });
+
+    if (config.sourceType === 'local' && config.loadMethod === 'streaming' && config.writeDisposition === 'WRITE_TRUNCATE' && !config.merge) {
+      throw new Error('Streaming inserts can only append rows; use a batch load to replace the table contents');
+    }
+
+    if (config.merge) {
+      const mergeErrors = validateMergeOptions(toTableLoadOptions(config).merge!);
+      if (mergeErrors.length > 0) {
+        throw new Error(mergeErrors[0]);
+      }
+      if (config.sourceType === 'local' && config.loadMethod === 'streaming') {
+        throw new Error('Merging loads the rows into a staging table first; use a batch load');
+      }
     }
 
     if (config.sourceType === 'gcs') {
@@ -95,26 +178,32 @@ class ProductionJobService {
       finalSchema: schema?.length || 0
     });
 
+    if (config.dryRun) {
+      return this.createDryRunJob(config, schema, target, layerTargets);
+    }
+
     if (config.sourceType === 'local' && config.file) {
       return this.createJobFromFile(
         config.file,
         config.gcsBucket || configService.getDefaultBucket(),
         config.gcsPath || `uploads/${config.file.name}`,
         schema,
-        datasetId,
-        tableId,
+        target,
         config.gcpProjectId,
-        config.sourceType
+        config.sourceType,
+        toFileProcessingOptions(config),
+        layerTargets,
+        toTableLoadOptions(config)
       );
     } else if (config.sourceType === 'gcs') {
       return this.createJobFromGCS(
         config.gcsBucket!,
         config.gcsPath!,
         schema,
-        datasetId,
-        tableId,
+        target,
         config.gcpProjectId,
-        config.sourceType
+        config.sourceType,
+        toTableLoadOptions(config)
       );
     } else {
       throw new Error('Invalid source type or missing file');
@@ -126,10 +215,12 @@ class ProductionJobService {
     gcsBucket: string,
     gcsPath: string,
     schema: any,
-    datasetId: string,
-    tableId: string,
+    target: TableReference,
     gcpProjectId: string,
-    sourceType: 'local' | 'gcs'
+    sourceType: 'local' | 'gcs',
+    processingOptions: FileProcessingOptions = {},
+    layerTargets: LayerTarget[] = [],
+    tableLoadOptions: TableLoadOptions = {}
   ): Promise<Job> {
     const jobId = `job_${Date.now()}`;
 
@@ -139,25 +230,26 @@ class ProductionJobService {
       fileSize: file.size,
       gcsPath,
       schema,
-      datasetId,
-      tableId,
+      datasetId: target.datasetId,
+      tableId: target.tableId,
       status: 'pending',
       progress: 0,
       createdAt: new Date(),
       lastUpdated: new Date(),
       logs: [],
       gcpProjectId,
+      dataProjectId: target.projectId,
       sourceType,
+      ...tableLoadOptions,
     };
 
     this.jobs.set(jobId, job);
     this.log('INFO', jobId, `Job created for file: ${file.name} (${file.size} bytes)`);
     this.notifyJobUpdate();
 
-    this.processFileJob(jobId, file, gcsBucket, gcsPath, schema, datasetId, tableId).catch((error) => {
-      this.log('ERROR', jobId, `Job processing failed: ${error.message}`);
-      this.updateJobStatus(jobId, 'failed', 0, error.message);
-    });
+    this.startRun(jobId, 'Job processing failed', (signal) =>
+    this.processFileJob(jobId, file, gcsBucket, gcsPath, schema, target, processingOptions, layerTargets, signal)
+    );
 
     return this.convertToJob(job);
   }
@@ -166,10 +258,10 @@ class ProductionJobService {
     gcsBucket: string,
     gcsPath: string,
     schema: any,
-    datasetId: string,
-    tableId: string,
+    target: TableReference,
     gcpProjectId: string,
-    sourceType: 'local' | 'gcs'
+    sourceType: 'local' | 'gcs',
+    tableLoadOptions: TableLoadOptions = {}
   ): Promise<Job> {
     const jobId = `job_${Date.now()}`;
 
@@ -179,49 +271,306 @@ class ProductionJobService {
       fileSize: 0,
       gcsPath: `gs://${gcsBucket}/${gcsPath}`,
       schema,
-      datasetId,
-      tableId,
+      datasetId: target.datasetId,
+      tableId: target.tableId,
       status: 'pending',
       progress: 0,
       createdAt: new Date(),
       lastUpdated: new Date(),
       logs: [],
       gcpProjectId,
+      dataProjectId: target.projectId,
       sourceType,
+      ...tableLoadOptions,
     };
 
     this.jobs.set(jobId, job);
     this.log('INFO', jobId, `Job created for GCS file: gs://${gcsBucket}/${gcsPath}`);
     this.notifyJobUpdate();
 
-    this.processGCSJob(jobId, gcsBucket, gcsPath, schema, datasetId, tableId).catch((error) => {
-      this.log('ERROR', jobId, `Job processing failed: ${error.message}`);
-      this.updateJobStatus(jobId, 'failed', 0, error.message);
-    });
+    this.startRun(jobId, 'Job processing failed', () => this.processGCSJob(jobId, gcsBucket, gcsPath, schema, target));
 
     return this.convertToJob(job);
   }
 
+  // A dry run checks every step of the load without uploading, creating or loading anything, and
+  // ends in 'validated' with a report of the checks
+  private createDryRunJob(
+  config: ProcessingConfig,
+  schema: SchemaField[] | undefined,
+  target: TableReference,
+  layerTargets: LayerTarget[])
+  : Job {
+    const jobId = `job_${Date.now()}`;
+    const gcsPath = config.sourceType === 'gcs' ? `gs://${config.gcsBucket}/${config.gcsPath}` : config.gcsPath || `uploads/${config.file!.name}`;
+
+    const job: ProcessingJob = {
+      id: jobId,
+      fileName: config.file?.name || config.gcsPath!.split('/').pop() || 'unknown',
+      fileSize: config.file?.size || 0,
+      gcsPath,
+      schema,
+      datasetId: target.datasetId,
+      tableId: target.tableId,
+      status: 'pending',
+      progress: 0,
+      createdAt: new Date(),
+      lastUpdated: new Date(),
+      logs: [],
+      gcpProjectId: config.gcpProjectId,
+      dataProjectId: target.projectId,
+      sourceType: config.sourceType,
+      ...toTableLoadOptions(config)
+    };
+
+    this.jobs.set(jobId, job);
+    this.log('INFO', jobId, `Dry run created for ${config.sourceType === 'gcs' ? gcsPath : job.fileName}; nothing will be written`);
+    this.notifyJobUpdate();
+
+    this.startRun(jobId, 'Dry run failed', (signal) => this.validateJob(jobId, config, schema, layerTargets, signal));
+
+    return this.convertToJob(job);
+  }
+
+  private async validateJob(
+  jobId: string,
+  config: ProcessingConfig,
+  schema: SchemaField[] | undefined,
+  layerTargets: LayerTarget[],
+  signal?: AbortSignal)
+  : Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return;
+    }
+
+    const checks: ValidationCheck[] = [];
+    const addCheck = (name: string, status: ValidationCheck['status'], message: string) => {
+      checks.push({ name, status, message });
+      this.log(status === 'failed' ? 'ERROR' : status === 'warning' ? 'WARN' : 'INFO', jobId, `${name}: ${message}`);
+    };
+
+    this.log('INFO', jobId, 'Starting dry run...');
+    this.updateJobStatus(jobId, 'processing', 10);
+
+    const settingErrors = [...validateTableMetadata(job.tableMetadata || {})];
+    if (job.maxBadRecords !== undefined && (!Number.isInteger(job.maxBadRecords) || job.maxBadRecords < 0)) {
+      settingErrors.push('Max bad records must be a whole number of 0 or more');
+    }
+    addCheck('Job settings', settingErrors.length > 0 ? 'failed' : 'passed', settingErrors.join('; ') || 'Table metadata and load options are valid');
+
+    // Uploads go to the chosen bucket and processed files to the default one; GCS sources are only
+    // read, and streamed files don't touch Cloud Storage
+    const bucketPermissions = new Map<string, string[]>();
+    if (config.sourceType === 'gcs') {
+      bucketPermissions.set(config.gcsBucket!, ['storage.objects.get']);
+    } else if (this.chooseLoadMethod(jobId, job.fileSize) === 'streaming') {
+      addCheck('Load method', 'passed', 'Streaming inserts; no Cloud Storage bucket is needed');
+    } else {
+      bucketPermissions.set(config.gcsBucket || configService.getDefaultBucket(), ['storage.objects.create']);
+      bucketPermissions.set(configService.getDefaultBucket(), ['storage.objects.create', 'storage.objects.get']);
+    }
+    for (const [bucket, permissions] of bucketPermissions) {
+      try {
+        const missing = await gcsService.testBucketPermissions(bucket, permissions);
+        addCheck(`Bucket ${bucket}`, missing.length > 0 ? 'failed' : 'passed',
+        missing.length > 0 ? `Missing permissions: ${missing.join(', ')}` : `Has ${permissions.join(', ')}`);
+      } catch (error) {
+        addCheck(`Bucket ${bucket}`, 'failed', error.message);
+      }
+    }
+
+    const targets = layerTargets.length > 0 ?
+    layerTargets.map((target) => ({ layerName: target.layerName, table: parseTableReference(target.targetTable, job.gcpProjectId)! })) :
+    [{ layerName: undefined as string | undefined, table: { projectId: job.dataProjectId, datasetId: job.datasetId, tableId: job.tableId } }];
+
+    // BigQuery loads from the bucket the file is staged in, or read from for GCS sources
+    const stagingBucket = config.sourceType === 'gcs' ? config.gcsBucket : job.loadMethod === 'batch' ? configService.getDefaultBucket() : undefined;
+    let stagingBucketLocation: string | undefined;
+    if (stagingBucket) {
+      try {
+        stagingBucketLocation = await gcsService.getBucketLocation(stagingBucket);
+      } catch (error) {
+        addCheck(`Bucket ${stagingBucket} location`, 'warning', `Could not be read: ${error.message}`);
+      }
+    }
+
+    const datasetLocations = new Map<string, string>();
+    const datasets = new Map(targets.map(({ table }) => [`${table.projectId}.${table.datasetId}`, table]));
+    for (const [datasetName, { projectId, datasetId }] of datasets) {
+      let location = job.location || DEFAULT_LOCATION;
+      try {
+        const dataset = await bigqueryService.getDataset(projectId, datasetId);
+        if (dataset) {
+          location = dataset.location || location;
+          const moved = job.location && !sameLocation(location, job.location);
+          addCheck(`Dataset ${datasetName}`, moved ? 'warning' : 'passed',
+          moved ? `Exists in ${location}, so the load runs there instead of ${job.location}` : `Exists in ${location}`);
+        } else {
+          addCheck(`Dataset ${datasetName}`, 'warning', `Does not exist and will be created in ${location}`);
+        }
+      } catch (error) {
+        addCheck(`Dataset ${datasetName}`, 'failed', error.message);
+      }
+      datasetLocations.set(datasetName, location);
+
+      if (stagingBucketLocation) {
+        const compatible = isBucketLocationCompatible(stagingBucketLocation, location);
+        addCheck(`Bucket ${stagingBucket} location`, compatible ? 'passed' : 'failed',
+        compatible ?
+        `${stagingBucketLocation} can load into dataset ${datasetName} in ${location}` :
+        `${stagingBucketLocation} can't load into dataset ${datasetName} in ${location}; use a bucket in ${location}`);
+      }
+    }
+
+    if (layerTargets.length > 0 && schema && schema.length > 0) {
+      addCheck('Schema', 'warning', 'Custom schema is ignored for multi-layer archives; each layer uses its own inferred schema');
+    }
+
+    for (const [index, target] of targets.entries()) {
+      if (signal?.aborted) {
+        throw new Error('Dry run was cancelled');
+      }
+      const prefix = target.layerName ? `Layer ${target.layerName}: ` : '';
+      const targetName = formatTableReference(target.table, job.gcpProjectId);
+      this.updateJobStatus(jobId, 'processing', 20 + index / targets.length * 70);
+
+      // Parsing the file gives the columns the load would write; GCS sources are parsed by BigQuery below
+      let targetSchema = target.layerName ? undefined : schema;
+      let columnMapping: ColumnMapping[] = [];
+      if (config.sourceType === 'local' && config.file) {
+        try {
+          const preview = await fileProcessingService.previewFile(
+            config.file,
+            { ...toFileProcessingOptions(config), layerName: target.layerName },
+            undefined,
+            signal
+          );
+          columnMapping = preview.columnMapping;
+          const invalid = preview.geometryValidation?.invalid || 0;
+          addCheck(`${prefix}Source file`, invalid > 0 ? 'warning' : 'passed',
+          `${preview.recordCount.toLocaleString()} records, ${preview.schema.length} columns` + (
+          invalid > 0 ? `; ${invalid} invalid geometries (policy: ${preview.geometryValidation!.policy})` : ''));
+
+          if (targetSchema) {
+            // A custom schema refers to source column names, the processed file uses the sanitized ones
+            targetSchema = targetSchema.map((field) => ({
+              ...field,
+              name: columnMapping.find((mapping) => mapping.original === field.name)?.final ?? field.name
+            }));
+            const columns = new Set(preview.schema.map((field) => field.name));
+            const unknown = targetSchema.filter((field) => !columns.has(field.name)).map((field) => field.name);
+            addCheck(`${prefix}Schema`, unknown.length > 0 ? 'warning' : 'passed',
+            unknown.length > 0 ? `Custom schema columns not in the file: ${unknown.join(', ')}` : `Custom schema matches the ${columns.size} file columns`);
+          } else {
+            targetSchema = preview.schema;
+            addCheck(`${prefix}Schema`, 'passed', `Inferred ${preview.schema.map((field) => `${field.name} ${field.type}`).join(', ')}`);
+          }
+        } catch (error) {
+          addCheck(`${prefix}Source file`, 'failed', error.message);
+          addCheck(`${prefix}Target table ${targetName}`, 'skipped', 'The file could not be parsed');
+          continue;
+        }
+      }
+
+      if (job.merge) {
+        const merge = {
+          ...job.merge,
+          keyColumns: job.merge.keyColumns.map((column) => columnMapping.find((mapping) => mapping.original === column)?.final ?? column)
+        };
+        const mergeErrors = validateMergeOptions(merge, targetSchema);
+        addCheck(`${prefix}Merge keys`, mergeErrors.length > 0 ? 'failed' : 'passed', mergeErrors.join('; ') || describeMergeOptions(merge));
+      }
+
+      let plan: TargetTablePlan;
+      try {
+        plan = await this.planTargetTable(jobId, target.table, targetSchema, columnMapping);
+      } catch (error) {
+        addCheck(`${prefix}Target table ${targetName}`, 'failed', error.message);
+        continue;
+      }
+      if (job.loadMethod === 'streaming' && !canStreamInto(plan)) {
+        if (job.requestedLoadMethod === 'streaming') {
+          addCheck(`${prefix}Target table ${targetName}`, 'failed', STREAMING_TABLE_CHANGE_ERROR);
+          continue;
+        }
+        plan.notes.push({ level: 'WARN', message: 'The table is created or changed by this load, so the rows are batch loaded through Cloud Storage instead of streamed' });
+      }
+
+      const warnings = plan.notes.filter((note) => note.level === 'WARN').map((note) => note.message);
+      const outcome = !plan.exists ? 'Will be created' : plan.create?.replace ? 'Will be replaced' : `Exists; the load uses ${plan.loadOptions.writeDisposition}`;
+      addCheck(`${prefix}Target table ${targetName}`, warnings.length > 0 ? 'warning' : 'passed', [outcome, ...warnings].join('; '));
+
+      // A GCS source is read as an external table with the load schema; otherwise an existing table is checked for access
+      try {
+        const sources = config.sourceType === 'gcs' ? { source: { uri: job.gcsPath, schema: plan.schema } } : {};
+        const query = config.sourceType === 'gcs' ? 'SELECT * FROM source' : plan.exists ? `SELECT * FROM \`${qualifiedTableName(target.table)}\` LIMIT 0` : undefined;
+        if (query) {
+          await bigqueryService.dryRunQuery(job.gcpProjectId, query, sources, datasetLocations.get(`${target.table.projectId}.${target.table.datasetId}`));
+          addCheck(`${prefix}BigQuery dry run`, 'passed', config.sourceType === 'gcs' ? `${job.gcsPath} is readable as NDJSON` : `${plan.tableName} is readable`);
+        } else {
+          addCheck(`${prefix}BigQuery dry run`, 'skipped', 'No existing table or Cloud Storage source to check');
+        }
+      } catch (error) {
+        addCheck(`${prefix}BigQuery dry run`, 'failed', error.message);
+      }
+    }
+
+    const passed = !checks.some((check) => check.status === 'failed');
+    job.validationReport = { passed, checks };
+    const failed = checks.filter((check) => check.status === 'failed').length;
+    this.log(passed ? 'INFO' : 'ERROR', jobId,
+    passed ? `Dry run passed (${checks.length} checks)` : `Dry run found ${failed} problem${failed === 1 ? '' : 's'} in ${checks.length} checks`);
+    this.updateJobStatus(jobId, 'validated', 100);
+  }
+
   private async processFileJob(
   jobId: string,
   file: File,
   gcsBucket: string,
   gcsPath: string,
   schema: any,
-  datasetId: string,
-  tableId: string)
+  target: TableReference,
+  processingOptions: FileProcessingOptions = {},
+  layerTargets: LayerTarget[] = [],
+  signal?: AbortSignal)
   : Promise<void> {
     try {
       this.log('INFO', jobId, 'Starting job processing...');
 
-      this.updateJobStatus(jobId, 'uploading', 10);
+      const loadMethod = this.chooseLoadMethod(jobId, file.size);
 
-      this.log('INFO', jobId, 'Uploading file to GCS...');
-      try {
-        await gcsService.uploadFile(file, gcsBucket, gcsPath);
-        this.log('INFO', jobId, 'File uploaded to GCS successfully');
-      } catch (uploadError) {
-        this.log('WARN', jobId, `GCS upload warning: ${uploadError}`);
+      // Datasets are prepared up front so the staging bucket is checked against their location before uploading
+      const billingProjectId = this.jobs.get(jobId)!.gcpProjectId;
+      const tables = layerTargets.length > 0 ? layerTargets.map((layer) => parseTableReference(layer.targetTable, billingProjectId)!) : [target];
+      const datasets = new Map(tables.map((table) => [`${table.projectId}.${table.datasetId}`, table]));
+      for (const [datasetName, { projectId, datasetId }] of datasets) {
+        const location = await this.prepareDataset(jobId, projectId, datasetId);
+        if (loadMethod === 'batch') {
+          await this.checkBucketLocation(jobId, configService.getDefaultBucket(), datasetName, location);
+        }
+      }
+
+      // Streamed files are never staged, so they don't need a writable bucket
+      if (loadMethod === 'batch') {
+        this.updateJobStatus(jobId, 'uploading', 10);
+
+        this.log('INFO', jobId, 'Uploading file to GCS...');
+        try {
+          const upload = await gcsService.uploadFile(file, gcsBucket, gcsPath, signal);
+          this.recordStagedObject(jobId, upload.gcsUri);
+          this.log('INFO', jobId, 'File uploaded to GCS successfully');
+        } catch (uploadError) {
+          if (signal?.aborted) {
+            throw uploadError;
+          }
+          this.log('WARN', jobId, `GCS upload warning: ${uploadError}`);
+        }
+      }
+
+      if (layerTargets.length > 0) {
+        await this.processLayerTargets(jobId, file, schema, processingOptions, layerTargets, signal);
+        return;
       }
 
       this.updateJobStatus(jobId, 'processing', 30);
@@ -233,44 +582,554 @@ class ProductionJobService {
         (progress) => {
           const adjustedProgress = 30 + progress * 0.3;
           this.updateJobStatus(jobId, 'processing', adjustedProgress);
-        }
+        },
+        processingOptions,
+        signal,
+        loadMethod === 'streaming' ? 'memory' : 'gcs'
       );
 
+      this.recordStagedObject(jobId, processingResult.processedFileUrl);
       this.log('INFO', jobId, `File processed successfully. Records: ${processingResult.recordCount}`);
+      this.recordSourceCrs(jobId, processingResult);
+      this.logGeometryValidation(jobId, processingResult);
+      this.logCoercion(jobId, processingResult);
+      this.recordColumnMapping(jobId, processingResult);
+      this.recordSchemaInference(jobId, processingResult);
 
       this.updateJobStatus(jobId, 'loading', 70);
 
-      let schemaToUse = schema;
-      if (!schemaToUse) {
-        this.log('INFO', jobId, 'Auto-detecting schema from processed file.');
-        schemaToUse = processingResult.schema;
+      // A custom schema refers to source column names, the processed file uses the sanitized ones
+      const loadSchema = schema?.map((field) => ({
+        ...field,
+        name: processingResult.columnMapping?.find((mapping) => mapping.original === field.name)?.final ?? field.name
+      }));
+
+      const loadJobId = await this.loadProcessedFile(jobId, processingResult, loadSchema, target, (progress) =>
+      this.updateJobStatus(jobId, 'loading', progress)
+      );
+
+      const job = this.jobs.get(jobId);
+      if (job) {
+        job.bigQueryJobId = loadJobId;
+        job.recordCount = processingResult.recordCount;
+        // Set already when streamed rows were staged for a batch load
+        job.processedFileUrl ??= processingResult.processedFileUrl;
       }
 
-      if (schemaToUse && schemaToUse.length > 0) {
-        this.log('INFO', jobId, 'Creating BigQuery dataset and table with custom schema...');
-        try {
-          const config = configService.getConfig();
-          const bigQueryConfig = {
-            projectId: config.gcpProjectId || 'gcve-demo-408018',
-            datasetId,
-            tableId
-          };
+      this.updateJobStatus(jobId, 'completed', 100);
+      this.log('INFO', jobId, 'Job completed successfully');
 
-          await bigqueryService.createTable(bigQueryConfig, schemaToUse);
-          this.log('INFO', jobId, 'Table created successfully with custom schema');
-        } catch (tableError) {
-          if (tableError.message?.includes('409') || tableError.message?.includes('already exists')) {
-            this.log('INFO', jobId, 'Table already exists, continuing...');
-          } else {
-            throw new Error(`Table creation failed: ${tableError.message}`);
-          }
+    } catch (error) {
+      if (!signal?.aborted) {
+        this.log('ERROR', jobId, `Job failed: ${error.message}`);
+        this.updateJobStatus(jobId, 'failed', 0, error.message);
+      }
+      throw error;
+    }
+  }
+
+  // Loads each layer of a multi-layer ZIP into its own table as child steps of the parent job
+  private async processLayerTargets(
+  jobId: string,
+  file: File,
+  schema: SchemaField[] | undefined,
+  processingOptions: FileProcessingOptions,
+  layerTargets: LayerTarget[],
+  signal?: AbortSignal)
+  : Promise<void> {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return;
+    }
+
+    if (schema && schema.length > 0) {
+      this.log('WARN', jobId, 'Custom schema is ignored for multi-layer archives; each layer uses its own inferred schema');
+    }
+
+    job.layers = layerTargets.map((target) => ({
+      layerName: target.layerName,
+      targetTable: target.targetTable,
+      status: 'pending'
+    }));
+    this.notifyJobUpdate();
+
+    const stepShare = 70 / job.layers.length;
+    let totalRecords = 0;
+
+    for (const [index, step] of job.layers.entries()) {
+      const stepStart = 30 + index * stepShare;
+      const updateStep = (updates: Partial<LayerLoadStep>) => {
+        Object.assign(step, updates);
+        this.notifyJobUpdate();
+      };
+
+      try {
+        this.log('INFO', jobId, `Layer ${step.layerName}: processing (${index + 1}/${job.layers.length})`);
+        updateStep({ status: 'processing' });
+        this.updateJobStatus(jobId, 'processing', stepStart);
+
+        const processingResult = await fileProcessingService.processFile(
+          file,
+          undefined,
+          (progress) => this.updateJobStatus(jobId, 'processing', stepStart + progress / 100 * stepShare * 0.5),
+          { ...processingOptions, layerName: step.layerName },
+          signal,
+          job.loadMethod === 'streaming' ? 'memory' : 'gcs'
+        );
+        this.recordStagedObject(jobId, processingResult.processedFileUrl);
+        this.log('INFO', jobId, `Layer ${step.layerName}: ${processingResult.recordCount} records`);
+        this.recordSourceCrs(jobId, processingResult);
+        this.logGeometryValidation(jobId, processingResult, `Layer ${step.layerName}: `);
+        this.logCoercion(jobId, processingResult, `Layer ${step.layerName}: `);
+        this.recordColumnMapping(jobId, processingResult, `Layer ${step.layerName}: `);
+        this.recordSchemaInference(jobId, processingResult, `Layer ${step.layerName}: `);
+
+        updateStep({ status: 'loading', recordCount: processingResult.recordCount });
+        const layerTable = parseTableReference(step.targetTable, job.gcpProjectId)!;
+        const loadJobId = await this.loadProcessedFile(jobId, processingResult, undefined, layerTable, (progress) =>
+        this.updateJobStatus(jobId, 'loading', stepStart + stepShare * progress / 100)
+        );
+
+        totalRecords += processingResult.recordCount;
+        updateStep({ status: 'completed', bigQueryJobId: loadJobId });
+        this.log('INFO', jobId, `Layer ${step.layerName}: loaded into ${step.targetTable}`);
+      } catch (error) {
+        if (signal?.aborted) {
+          job.layers.filter((layer) => layer.status !== 'completed' && layer.status !== 'failed').forEach((layer) => {
+            layer.status = 'cancelled';
+          });
+          this.notifyJobUpdate();
+          throw error;
         }
-      } else {
-        this.log('INFO', jobId, 'Skipping table creation - will use BigQuery auto-detect schema');
+        updateStep({ status: 'failed', error: error.message });
+        this.log('ERROR', jobId, `Layer ${step.layerName} failed: ${error.message}`);
+      }
+    }
+
+    job.recordCount = totalRecords;
+
+    const failedLayers = job.layers.filter((step) => step.status === 'failed');
+    if (failedLayers.length > 0) {
+      throw new Error(
+        `${failedLayers.length} of ${job.layers.length} layers failed: ${failedLayers.map((step) => step.layerName).join(', ')}`
+      );
+    }
+
+    this.updateJobStatus(jobId, 'completed', 100);
+    this.log('INFO', jobId, `Job completed successfully. ${job.layers.length} layers loaded`);
+  }
+
+  // Resolves the job's load method for a local file and stores the choice on the job
+  private chooseLoadMethod(jobId: string, fileSize: number): 'batch' | 'streaming' {
+    const job = this.jobs.get(jobId);
+    if (job && !job.requestedLoadMethod) {
+      job.requestedLoadMethod = job.loadMethod || 'auto';
+    }
+    // Merges load a staging table, which streaming can't provide
+    const loadMethod = job?.merge ? 'batch' : resolveLoadMethod(job?.requestedLoadMethod, fileSize, job?.writeDisposition);
+    if (job) {
+      this.log('INFO', jobId, loadMethod === 'streaming' ?
+      `Load method: streaming inserts${job.requestedLoadMethod === 'streaming' ? '' : ' (small file)'}, nothing is staged in Cloud Storage` :
+      'Load method: batch load staged in Cloud Storage');
+      job.loadMethod = loadMethod;
+    }
+    return loadMethod;
+  }
+
+  private recordSourceCrs(jobId: string, processingResult: ProcessedFileResult) {
+    if (!processingResult.sourceCrs) {
+      return;
+    }
+    this.log('INFO', jobId, `Source CRS: ${processingResult.sourceCrs}; coordinates written as EPSG:4326`);
+    const job = this.jobs.get(jobId);
+    if (job) {
+      job.sourceCrs = processingResult.sourceCrs;
+    }
+  }
+
+  private recordColumnMapping(jobId: string, processingResult: ProcessedFileResult, prefix = '') {
+    const renamed = processingResult.columnMapping?.filter((mapping) => mapping.original !== mapping.final) || [];
+    if (renamed.length === 0) {
+      return;
+    }
+    this.log('INFO', jobId,
+    `${prefix}Renamed ${renamed.length} columns for BigQuery: ${renamed.map((mapping) => `${mapping.original} → ${mapping.final}`).join(', ')}`
+    );
+    // Multi-layer jobs keep the mapping in the logs only
+    const job = this.jobs.get(jobId);
+    if (job && !job.layers) {
+      job.columnMapping = renamed;
+    }
+  }
+
+  // Widened and empty columns are logged before the load so surprising types can be overridden
+  private recordSchemaInference(jobId: string, processingResult: ProcessedFileResult, prefix = '') {
+    const columns = processingResult.schemaInference;
+    if (!columns || columns.length === 0) {
+      return;
+    }
+    const sampled = columns.some((summary) => summary.sampled);
+    this.log('INFO', jobId, `${prefix}Inferred types for ${columns.length} columns${sampled ? ' from a sample of the records' : ''}`);
+
+    columns.forEach((summary) => {
+      if (summary.conflict) {
+        const counts = Object.entries(summary.typeCounts);
+        const observed = counts.length > 1 ?
+        counts.map(([type, count]) => `${count} ${type}`).join(', ') :
+        'arrays mixed with single values';
+        this.log('WARN', jobId, `${prefix}Column ${summary.column}: mixed values (${observed}) loaded as JSON text in a STRING column`);
+      } else if (summary.source === 'inferred' && summary.nonNullValues === 0) {
+        this.log('WARN', jobId, `${prefix}Column ${summary.column}: no non-null values, loaded as STRING`);
+      }
+    });
+
+    // Multi-layer jobs keep the summary in the logs only
+    const job = this.jobs.get(jobId);
+    if (job && !job.layers) {
+      job.schemaInference = columns;
+    }
+  }
+
+  private logCoercion(jobId: string, processingResult: ProcessedFileResult, prefix = '') {
+    processingResult.coercion?.forEach((report) => {
+      if (report.missing) {
+        this.log('WARN', jobId, `${prefix}Type override for ${report.column} ignored: column not found`);
+        return;
+      }
+      if (report.failed === 0) {
+        this.log('INFO', jobId, `${prefix}Column ${report.column}: ${report.converted} values converted to ${report.type}`);
+        return;
+      }
+      const examples = report.failures.map((failure) => `record ${failure.recordIndex}: "${failure.value}"`).join(', ');
+      this.log('WARN', jobId,
+      `${prefix}Column ${report.column}: ${report.failed} values could not be converted to ${report.type} and were loaded as null (${examples})`
+      );
+    });
+  }
+
+  private logGeometryValidation(jobId: string, processingResult: ProcessedFileResult, prefix = '') {
+    const report = processingResult.geometryValidation;
+    if (!report) {
+      return;
+    }
+    if (report.invalid === 0) {
+      this.log('INFO', jobId, `${prefix}All ${report.checked} geometries are valid`);
+      return;
+    }
+
+    const formatIndexes = (indexes: number[]) =>
+    indexes.length > 20 ? `${indexes.slice(0, 20).join(', ')} … (+${indexes.length - 20} more)` : indexes.join(', ');
+
+    this.log('WARN', jobId,
+    `${prefix}${report.invalid} of ${report.checked} geometries invalid (policy: ${report.policy}); ${report.repaired} repaired, ${report.dropped} dropped`
+    );
+    if (report.repairedFeatureIndexes.length > 0) {
+      this.log('WARN', jobId, `${prefix}Repaired features: ${formatIndexes(report.repairedFeatureIndexes)}`);
+    }
+    if (report.droppedFeatureIndexes.length > 0) {
+      this.log('WARN', jobId, `${prefix}Dropped features: ${formatIndexes(report.droppedFeatureIndexes)}`);
+    }
+    report.issues.slice(0, 5).forEach((issue) =>
+    this.log('WARN', jobId, `${prefix}Feature ${issue.featureIndex}: ${issue.problems.join(', ')}`)
+    );
+  }
+
+  // Returns the dataset's location, creating the dataset in the job's location when it doesn't exist.
+  // Jobs have to run where the dataset is, so an existing dataset's location wins. The job keeps the
+  // requested location; each dataset's is recorded in datasetLocations.
+  private async prepareDataset(jobId: string, projectId: string, datasetId: string): Promise<string> {
+    const job = this.jobs.get(jobId);
+    const datasetName = `${projectId}.${datasetId}`;
+    if (job?.datasetLocations?.[datasetName]) {
+      return job.datasetLocations[datasetName];
+    }
+
+    const requested = job?.location || DEFAULT_LOCATION;
+    const dataset = await bigqueryService.getDataset(projectId, datasetId);
+
+    let location = requested;
+    if (!dataset) {
+      this.throwIfCancelled(jobId);
+      this.log('INFO', jobId, `Creating dataset ${datasetId} in ${requested}`);
+      await bigqueryService.createDataset(projectId, datasetId, requested);
+    } else if (dataset.location) {
+      location = dataset.location;
+      if (job?.location && !sameLocation(location, job.location)) {
+        this.log('WARN', jobId, `Dataset ${datasetId} is in ${location}, not ${job.location}; loading there`);
+      }
+    }
+
+    if (job) {
+      job.datasetLocations = { ...job.datasetLocations, [datasetName]: location };
+    }
+    return location;
+  }
+
+  // BigQuery only loads from a bucket in or inside the dataset's location. A bucket whose location
+  // can't be read is left for the load job to report.
+  private async checkBucketLocation(jobId: string, bucket: string, datasetName: string, datasetLocation: string): Promise<void> {
+    let bucketLocation: string;
+    try {
+      bucketLocation = await gcsService.getBucketLocation(bucket);
+    } catch (error) {
+      this.log('WARN', jobId, `Could not read the location of bucket ${bucket}: ${error.message}`);
+      return;
+    }
+
+    if (!isBucketLocationCompatible(bucketLocation, datasetLocation)) {
+      throw new Error(
+        `Bucket ${bucket} is in ${bucketLocation}, which BigQuery can't load from into dataset ${datasetName} in ${datasetLocation}. ` +
+        `Use a bucket in ${datasetLocation}`
+      );
+    }
+    this.log('INFO', jobId, `Bucket ${bucket} (${bucketLocation}) is compatible with dataset ${datasetName} (${datasetLocation})`);
+  }
+
+  // Works out what loading into the target table involves without changing anything: compares an
+  // existing table with the load schema and applies the job's write disposition and schema change
+  // action. Throws when the load can't go ahead.
+  private async planTargetTable(
+  jobId: string,
+  bigQueryConfig: TableReference,
+  schema: SchemaField[] | undefined,
+  columnMapping: ColumnMapping[] = [])
+  : Promise<TargetTablePlan> {
+    const job = this.jobs.get(jobId);
+    const writeDisposition = job?.writeDisposition || 'WRITE_APPEND';
+    const loadOptions: LoadJobOptions = { writeDisposition };
+    const tableName = formatTableReference(bigQueryConfig, job?.gcpProjectId);
+    const notes: TargetTablePlan['notes'] = [];
+
+    const layout = renameTableLayout({ partitioning: job?.partitioning, clusteringFields: job?.clusteringFields }, columnMapping);
+    const layoutErrors = validateTableLayout(layout, schema && schema.length > 0 ? schema : undefined);
+    if (layoutErrors.length > 0) {
+      throw new Error(`Invalid partitioning or clustering for ${tableName}: ${layoutErrors.join('; ')}`);
+    }
+
+    const existingTable = await bigqueryService.getTable(bigQueryConfig);
+    if (existingTable) {
+      const existingRows = Number(existingTable.numRows || 0);
+      if (writeDisposition === 'WRITE_EMPTY' && existingRows > 0) {
+        throw new Error(`Table ${tableName} already contains ${existingRows.toLocaleString()} rows; the job only writes to empty tables`);
       }
+      if (writeDisposition === 'WRITE_TRUNCATE' && existingRows > 0) {
+        notes.push({ level: 'WARN', message: `Replacing the ${existingRows.toLocaleString()} existing rows in ${tableName}` });
+      }
+      // Partitioning can't be changed on an existing table, so the requested layout only applies to new tables
+      if (hasTableLayout(layout) && !sameTableLayout(layout, existingTable.layout)) {
+        notes.push({
+          level: 'WARN',
+          message: `Table ${tableName} keeps its existing layout (${formatTableLayout(existingTable.layout)}); replace the table to apply ${formatTableLayout(layout)}`
+        });
+      }
+    }
+
+    if (!schema || schema.length === 0) {
+      notes.push({ level: 'INFO', message: 'Skipping table creation - will use BigQuery auto-detect schema' });
+      // The load job creates a missing table, and with it the requested layout
+      return { tableName, exists: !!existingTable, notes, loadOptions: existingTable ? loadOptions : { ...loadOptions, ...layout } };
+    }
+
+    if (!existingTable) {
+      return { tableName, exists: !!existingTable, notes, schema, loadOptions, create: { schema, layout, replace: false } };
+    }
+
+    const diff = diffSchemas(existingTable.schema, schema);
+    if (diff.changes.length === 0) {
+      // The existing schema also covers types it accepts as-is, such as INTEGER values in a FLOAT column
+      notes.push({ level: 'INFO', message: `Table ${tableName} already exists with a matching schema` });
+      return { tableName, exists: !!existingTable, notes, schema: diff.updatedSchema, loadOptions };
+    }
+
+    const action = job?.schemaChangeAction || 'abort';
+    const summary = diff.changes.map(formatSchemaChange).join('; ');
+    notes.push({ level: 'WARN', message: `Table ${tableName} has a different schema (${action}): ${summary}` });
+
+    switch (action) {
+      case 'replace':
+        return { tableName, exists: !!existingTable, notes, schema, loadOptions, create: { schema, layout, replace: true } };
+      case 'update':
+        if (!diff.compatible) {
+          const incompatible = diff.changes.filter((change) => !change.compatible).map(formatSchemaChange).join('; ');
+          throw new Error(`Table ${tableName} cannot be updated in place (${incompatible}); replace the table instead`);
+        }
+        if (writeDisposition === 'WRITE_APPEND') {
+          notes.push({ level: 'INFO', message: `Appending to ${tableName} with field addition and relaxation allowed` });
+          return {
+            tableName,
+            exists: !!existingTable,
+            notes,
+            schema: diff.updatedSchema,
+            loadOptions: { writeDisposition, schemaUpdateOptions: ['ALLOW_FIELD_ADDITION', 'ALLOW_FIELD_RELAXATION'] }
+          };
+        }
+        if (writeDisposition === 'WRITE_TRUNCATE') {
+          // A truncating load replaces the table schema along with its rows
+          return { tableName, exists: !!existingTable, notes, schema: diff.updatedSchema, loadOptions };
+        }
+        // Schema update options only apply to appends, and an empty table has nothing to keep
+        return {
+          tableName,
+          exists: !!existingTable,
+          notes,
+          schema: diff.updatedSchema,
+          loadOptions,
+          create: { schema: diff.updatedSchema, layout: existingTable.layout, replace: true }
+        };
+      default:
+        throw new Error(`Table ${tableName} has a different schema: ${summary}. Choose to update or replace the table to continue`);
+    }
+  }
 
-      this.updateJobStatus(jobId, 'loading', 80);
+  // Plans and carries out the changes to the target table. Returns the schema and options the load job should use.
+  private async prepareTargetTable(
+  jobId: string,
+  bigQueryConfig: TableReference,
+  schema: SchemaField[] | undefined,
+  columnMapping: ColumnMapping[] = [])
+  : Promise<{schema?: SchemaField[];loadOptions: LoadJobOptions;}> {
+    const plan = await this.planTargetTable(jobId, bigQueryConfig, schema, columnMapping);
+    return this.applyTargetTablePlan(jobId, bigQueryConfig, plan);
+  }
+
+  // Carries out the plan for the target table. Returns the schema and options the load job should use.
+  private async applyTargetTablePlan(
+  jobId: string,
+  bigQueryConfig: TableReference,
+  plan: TargetTablePlan)
+  : Promise<{schema?: SchemaField[];loadOptions: LoadJobOptions;}> {
+    plan.notes.forEach((note) => this.log(note.level, jobId, note.message));
+
+    if (plan.create) {
+      const { layout, replace } = plan.create;
+      if (replace) {
+        this.throwIfCancelled(jobId);
+        this.log('INFO', jobId, `Replacing table ${plan.tableName}`);
+        await bigqueryService.deleteTable(bigQueryConfig);
+      }
+      this.throwIfCancelled(jobId);
+      this.log('INFO', jobId, 'Creating BigQuery dataset and table with custom schema...');
+      try {
+        await bigqueryService.createTable(bigQueryConfig, plan.create.schema, layout);
+      } catch (tableError) {
+        throw new Error(`Table creation failed: ${tableError.message}`);
+      }
+      this.log('INFO', jobId, hasTableLayout(layout) ? `Table created with ${formatTableLayout(layout)}` : 'Table created successfully with custom schema');
+    }
+
+    return { schema: plan.schema, loadOptions: plan.loadOptions };
+  }
+
+  // Stamps the configured metadata and the provenance of this load on the target table. The rows are
+  // already loaded, so a failure here is only a warning.
+  private async applyTableMetadata(
+  jobId: string,
+  bigQueryConfig: TableReference,
+  source: Omit<TableProvenance, 'jobId' | 'loadedBy' | 'loadedAt'>)
+  : Promise<void> {
+    const metadata = this.jobs.get(jobId)?.tableMetadata || {};
+    const provenance: TableProvenance = {
+      ...source,
+      jobId,
+      loadedBy: authService.getCurrentUser()?.email,
+      loadedAt: new Date()
+    };
+
+    try {
+      const existingDescription = metadata.description ? undefined : (await bigqueryService.getTable(bigQueryConfig))?.description;
+      await bigqueryService.updateTableMetadata(bigQueryConfig, {
+        description: withProvenance(metadata.description || existingDescription, provenance),
+        friendlyName: metadata.friendlyName,
+        labels: { ...metadata.labels, ...provenanceLabels(provenance) },
+        expirationTime: metadata.expirationDays ? new Date(provenance.loadedAt.getTime() + metadata.expirationDays * 24 * 60 * 60 * 1000) : undefined
+      });
+      this.log('INFO', jobId, `Table metadata updated: ${describeProvenance(provenance)}`);
+    } catch (error) {
+      this.log('WARN', jobId, `Could not update table metadata: ${error.message}`);
+    }
+  }
+
+  // Writes the processed rows to the target table, through a staging table and MERGE for merge jobs
+  // and otherwise by a load job or streaming, then stamps the table metadata. Returns the ID of the
+  // last BigQuery job, if any. Progress is reported between 70 and 90 percent.
+  private async loadProcessedFile(
+  jobId: string,
+  processingResult: ProcessedFileResult,
+  schema: SchemaField[] | undefined,
+  target: TableReference,
+  onProgress: (progress: number) => void)
+  : Promise<string | undefined> {
+    let schemaToUse = schema;
+    if (!schemaToUse) {
+      this.log('INFO', jobId, 'Auto-detecting schema from processed file.');
+      schemaToUse = processingResult.schema;
+    }
+
+    const bigQueryConfig: BigQueryTarget = {
+      ...target,
+      billingProjectId: this.jobs.get(jobId)!.gcpProjectId,
+      location: await this.prepareDataset(jobId, target.projectId, target.datasetId)
+    };
+    const errorSource: LoadErrorSource = {
+      uri: processingResult.processedFileUrl,
+      rowOffsets: processingResult.rowOffsets,
+      droppedFeatureIndexes: processingResult.geometryValidation?.droppedFeatureIndexes,
+      layerName: processingResult.layerName
+    };
 
+    let loadJobId: string | undefined;
+    if (this.jobs.get(jobId)?.merge) {
+      onProgress(80);
+      loadJobId = await this.mergeIntoTable(
+        jobId,
+        bigQueryConfig,
+        processingResult.processedFileUrl,
+        schemaToUse,
+        processingResult.columnMapping,
+        errorSource
+      );
+      onProgress(90);
+    } else {
+      loadJobId = await this.loadIntoTable(jobId, processingResult, schemaToUse, bigQueryConfig, errorSource, onProgress);
+    }
+
+    const job = this.jobs.get(jobId);
+    await this.applyTableMetadata(jobId, bigQueryConfig, {
+      source: processingResult.layerName ? `${job?.fileName} (layer ${processingResult.layerName})` : job?.fileName || processingResult.processedFileName,
+      sizeBytes: job?.fileSize,
+      sourceCrs: processingResult.sourceCrs,
+      featureCount: processingResult.recordCount
+    });
+
+    return loadJobId;
+  }
+
+  // Prepares the target table, then streams the rows kept in memory or runs a load job over the
+  // processed file in Cloud Storage
+  private async loadIntoTable(
+  jobId: string,
+  processingResult: ProcessedFileResult,
+  schema: SchemaField[],
+  bigQueryConfig: BigQueryTarget,
+  errorSource: LoadErrorSource,
+  onProgress: (progress: number) => void)
+  : Promise<string | undefined> {
+    const plan = await this.planTargetTable(jobId, bigQueryConfig, schema, processingResult.columnMapping);
+    if (processingResult.processedRows && !canStreamInto(plan)) {
+      if (this.jobs.get(jobId)?.requestedLoadMethod === 'streaming') {
+        throw new Error(`${STREAMING_TABLE_CHANGE_ERROR} for ${plan.tableName}`);
+      }
+      processingResult = await this.stageForBatchLoad(jobId, processingResult, bigQueryConfig);
+      errorSource.uri = processingResult.processedFileUrl;
+    }
+    const { schema: loadSchema, loadOptions } = await this.applyTargetTablePlan(jobId, bigQueryConfig, plan);
+
+    onProgress(80);
+
+    let loadJobId: string | undefined;
+    if (processingResult.processedRows) {
+      await this.streamProcessedFile(jobId, processingResult, bigQueryConfig, onProgress);
+    } else {
       this.log('INFO', jobId, 'Validating processed file...');
       const fileExists = await fileProcessingService.validateProcessedFile(processingResult.processedFileUrl);
       if (!fileExists) {
@@ -278,44 +1137,209 @@ class ProductionJobService {
       }
 
       this.log('INFO', jobId, 'Loading data to BigQuery...');
-      const config = configService.getConfig();
-      const bigQueryConfig = {
-        projectId: config.gcpProjectId || 'gcve-demo-408018',
-        datasetId,
-        tableId
-      };
-
-      console.log('識 Loading data with schema configuration:', {
-        hasSchema: schemaToUse && schemaToUse.length > 0,
-        schemaFields: schemaToUse?.length || 0,
-        willAutoDetect: !schemaToUse || schemaToUse.length === 0
+      console.log('識 Loading data with schema configuration:', {
+        hasSchema: !!loadSchema,
+        schemaFields: loadSchema?.length || 0,
+        willAutoDetect: !loadSchema,
+        ...loadOptions
       });
 
-      const loadJobId = await bigqueryService.loadDataFromGCS(
+      this.throwIfCancelled(jobId);
+      loadJobId = await bigqueryService.loadDataFromGCS(
         bigQueryConfig,
         processingResult.processedFileUrl,
-        schemaToUse
+        loadSchema,
+        loadOptions
       );
       this.log('INFO', jobId, `BigQuery load job started: ${loadJobId}`);
 
-      this.updateJobStatus(jobId, 'loading', 90);
-      await this.monitorBigQueryJob(jobId, loadJobId);
+      onProgress(90);
+      await this.monitorBigQueryJob(jobId, loadJobId, bigQueryConfig, errorSource);
+    }
 
-      const job = this.jobs.get(jobId);
+    return loadJobId;
+  }
+
+  // Loads the rows into a staging table next to the target and MERGEs them into it on the job's key
+  // columns. The staging table is deleted afterwards, and expires by itself should that fail.
+  // Returns the ID of the MERGE job.
+  private async mergeIntoTable(
+  jobId: string,
+  bigQueryConfig: BigQueryTarget,
+  sourceUri: string,
+  schema: SchemaField[] | undefined,
+  columnMapping: ColumnMapping[] = [],
+  errorSource?: LoadErrorSource)
+  : Promise<string> {
+    const job = this.jobs.get(jobId);
+    const tableName = formatTableReference(bigQueryConfig, bigQueryConfig.billingProjectId);
+    const stagingConfig = { ...bigQueryConfig, tableId: `${bigQueryConfig.tableId}_staging_${jobId}` };
+    const stagingName = formatTableReference(stagingConfig, bigQueryConfig.billingProjectId);
+    // Key columns refer to source column names, the processed file uses the sanitized ones
+    const merge = {
+      ...job!.merge!,
+      keyColumns: job!.merge!.keyColumns.map((column) => columnMapping.find((mapping) => mapping.original === column)?.final ?? column)
+    };
+
+    try {
+      this.throwIfCancelled(jobId);
+      this.log('INFO', jobId, `Loading rows into staging table ${stagingName}...`);
+      const stagingJobId = await bigqueryService.loadDataFromGCS(stagingConfig, sourceUri, schema, {
+        writeDisposition: 'WRITE_TRUNCATE',
+        maxBadRecords: job?.maxBadRecords,
+        ignoreUnknownValues: job?.ignoreUnknownValues
+      });
+      await this.monitorBigQueryJob(jobId, stagingJobId, bigQueryConfig, errorSource);
+      await bigqueryService.updateTableMetadata(stagingConfig, { expirationTime: new Date(Date.now() + STAGING_TABLE_LIFETIME_MS) }).
+      catch((error) => this.log('WARN', jobId, `Could not set an expiration on ${stagingName}: ${error.message}`));
+
+      // The staging table has the loaded columns, including any BigQuery auto-detected
+      const stagingSchema = (await bigqueryService.getTable(stagingConfig))?.schema || [];
+      const mergeErrors = validateMergeOptions(merge, stagingSchema);
+      if (mergeErrors.length > 0) {
+        throw new Error(`Cannot merge into ${tableName}: ${mergeErrors.join('; ')}`);
+      }
+
+      const duplicates = await bigqueryService.runQuery(
+        bigQueryConfig.billingProjectId,
+        buildDuplicateKeyQuery(qualifiedTableName(stagingConfig), merge.keyColumns),
+        bigQueryConfig.location
+      );
+      if (duplicates.length > 0) {
+        duplicates.forEach((duplicate) => this.log('ERROR', jobId, `Merge key ${duplicate.merge_key} is on ${duplicate.merge_key_rows} rows`));
+        throw new Error(
+          `Cannot merge into ${tableName}: ${duplicates[0].duplicate_keys} merge keys are on more than one row of the file, ` +
+          'so it is unclear which row should update the table'
+        );
+      }
+
+      const { schema: targetSchema, loadOptions } = await this.prepareTargetTable(jobId, bigQueryConfig, stagingSchema, columnMapping);
+      if (loadOptions.schemaUpdateOptions && targetSchema) {
+        this.throwIfCancelled(jobId);
+        await bigqueryService.updateTableSchema(bigQueryConfig, targetSchema);
+        this.log('INFO', jobId, `Updated the schema of ${tableName} for the merge`);
+      }
+
+      this.throwIfCancelled(jobId);
+      this.log('INFO', jobId, `Merging into ${tableName}: ${describeMergeOptions(merge)}`);
+      const mergeJobId = await bigqueryService.startQueryJob(
+        bigQueryConfig.billingProjectId,
+        buildMergeStatement(
+          qualifiedTableName(bigQueryConfig),
+          qualifiedTableName(stagingConfig),
+          stagingSchema.map((field) => field.name),
+          merge
+        ),
+        bigQueryConfig.location
+      );
+      const dmlStats = (await this.monitorBigQueryJob(jobId, mergeJobId, bigQueryConfig)).statistics?.query?.dmlStats;
+
+      const result: MergeResult = {
+        insertedRows: Number(dmlStats?.insertedRowCount || 0),
+        updatedRows: Number(dmlStats?.updatedRowCount || 0),
+        deletedRows: Number(dmlStats?.deletedRowCount || 0)
+      };
       if (job) {
-        job.bigQueryJobId = loadJobId;
-        job.recordCount = processingResult.recordCount;
-        job.processedFileUrl = processingResult.processedFileUrl;
+        // Multi-layer jobs report the totals over all layers
+        job.mergeResult = {
+          insertedRows: (job.mergeResult?.insertedRows || 0) + result.insertedRows,
+          updatedRows: (job.mergeResult?.updatedRows || 0) + result.updatedRows,
+          deletedRows: (job.mergeResult?.deletedRows || 0) + result.deletedRows
+        };
       }
+      this.log('INFO', jobId,
+      `Merged into ${tableName}: ${result.insertedRows} inserted, ${result.updatedRows} updated, ${result.deletedRows} deleted`);
+      return mergeJobId;
+    } finally {
+      try {
+        await bigqueryService.deleteTable(stagingConfig);
+        this.log('INFO', jobId, `Staging table ${stagingName} deleted`);
+      } catch (error) {
+        this.log('WARN', jobId, `Could not delete staging table ${stagingName}, it expires within a day: ${error.message}`);
+      }
+    }
+  }
 
-      this.updateJobStatus(jobId, 'completed', 100);
-      this.log('INFO', jobId, 'Job completed successfully');
+  // Switches an automatically streamed file to a batch load: the rows kept in memory are staged in
+  // the default bucket, which has to suit the dataset's location
+  private async stageForBatchLoad(
+  jobId: string,
+  processingResult: ProcessedFileResult,
+  bigQueryConfig: BigQueryTarget)
+  : Promise<ProcessedFileResult> {
+    const job = this.jobs.get(jobId);
+    this.log('INFO', jobId, `${formatTableReference(bigQueryConfig, job?.gcpProjectId)} is created or changed by this load; switching to a batch load staged in Cloud Storage`);
+    await this.checkBucketLocation(
+      jobId,
+      configService.getDefaultBucket(),
+      `${bigQueryConfig.projectId}.${bigQueryConfig.datasetId}`,
+      bigQueryConfig.location || DEFAULT_LOCATION
+    );
 
-    } catch (error) {
-      this.log('ERROR', jobId, `Job failed: ${error.message}`);
-      this.updateJobStatus(jobId, 'failed', 0, error.message);
-      throw error;
+    const staged = await fileProcessingService.stageProcessedRows(processingResult, this.abortControllers.get(jobId)?.signal);
+    this.recordStagedObject(jobId, staged.processedFileUrl);
+    if (job) {
+      job.loadMethod = 'batch';
+      job.processedFileUrl = staged.processedFileUrl;
+    }
+    return staged;
+  }
+
+  // Streams the rows kept in memory into the prepared table. Rejected rows are recorded like the bad
+  // records of a load job, and more than maxBadRecords fails the job.
+  private async streamProcessedFile(
+  jobId: string,
+  processingResult: ProcessedFileResult,
+  bigQueryConfig: TableReference,
+  onProgress: (progress: number) => void)
+  : Promise<void> {
+    const job = this.jobs.get(jobId);
+    const tableName = formatTableReference(bigQueryConfig, job?.gcpProjectId);
+    const maxBadRecords = job?.maxBadRecords || 0;
+    const rows: Record<string, unknown>[] = (await processingResult.processedRows!.text()).
+    split('\n').
+    filter(Boolean).
+    map((line) => JSON.parse(line));
+
+    this.throwIfCancelled(jobId);
+    this.log('INFO', jobId, `Streaming ${rows.length} rows into ${tableName}...`);
+    const result = await bigqueryService.insertRows(bigQueryConfig, rows, {
+      insertIdPrefix: `${jobId}_${processingResult.processedFileName}`,
+      ignoreUnknownValues: job?.ignoreUnknownValues,
+      maxBadRecords,
+      onProgress: (insertedRows) => onProgress(80 + 10 * insertedRows / Math.max(rows.length, 1)),
+      signal: this.abortControllers.get(jobId)?.signal
+    });
+
+    // Rows held back only because of other rows carry a 'stopped' error alongside the real one
+    const rowErrors: LoadRowError[] = result.rowErrors.map(({ index, errors }) => {
+      const error = errors.find((candidate) => candidate.reason !== 'stopped') || errors[0];
+      return {
+        reason: error.reason,
+        message: error.message,
+        location: error.location,
+        layerName: processingResult.layerName,
+        rowIndex: index,
+        featureIndex: sourceFeatureIndex(index, processingResult.geometryValidation?.droppedFeatureIndexes),
+        field: error.location || undefined,
+        attributes: rows[index]
+      };
+    });
+    if (job && rowErrors.length > 0) {
+      job.loadErrors = [...(job.loadErrors || []), ...rowErrors];
+    }
+    this.logRowErrors(jobId, rowErrors);
+
+    if (rowErrors.length > maxBadRecords) {
+      throw new Error(
+        `Streaming insert failed: ${rowErrors.length} rows rejected, more than the ${maxBadRecords} bad records allowed. ` +
+        `${result.insertedRows} rows were already inserted${result.stopped ? ' and the rest were not sent' : ''}`
+      );
     }
+    if (rowErrors.length > 0) {
+      this.log('WARN', jobId, `BigQuery rejected ${rowErrors.length} bad records, see Load Errors`);
+    }
+    this.log('INFO', jobId, `Streamed ${result.insertedRows} rows into ${tableName}`);
   }
 
   private async processGCSJob(
@@ -323,8 +1347,7 @@ class ProductionJobService {
   gcsBucket: string,
   gcsPath: string,
   schema: any,
-  datasetId: string,
-  tableId: string)
+  target: TableReference)
   : Promise<void> {
     try {
       this.log('INFO', jobId, 'Starting GCS job processing...');
@@ -333,100 +1356,252 @@ class ProductionJobService {
 
       this.updateJobStatus(jobId, 'processing', 20);
 
-      if (schema && schema.length > 0) {
-        this.log('INFO', jobId, 'Creating BigQuery dataset and table with custom schema...');
-        try {
-          const config = configService.getConfig();
-          const bigQueryConfig = {
-            projectId: config.gcpProjectId || 'gcve-demo-408018',
-            datasetId,
-            tableId
-          };
-
-          await bigqueryService.createTable(bigQueryConfig, schema);
-          this.log('INFO', jobId, 'Table created successfully with custom schema');
-        } catch (tableError) {
-          if (tableError.message?.includes('409') || tableError.message?.includes('already exists')) {
-            this.log('INFO', jobId, 'Table already exists, continuing...');
-          } else {
-            throw new Error(`Table creation failed: ${tableError.message}`);
-          }
-        }
+      const bigQueryConfig: BigQueryTarget = {
+        ...target,
+        billingProjectId: this.jobs.get(jobId)!.gcpProjectId,
+        location: await this.prepareDataset(jobId, target.projectId, target.datasetId)
+      };
+      await this.checkBucketLocation(jobId, gcsBucket, `${target.projectId}.${target.datasetId}`, bigQueryConfig.location);
+      let loadJobId: string;
+      let featureCount: number | undefined;
+      if (this.jobs.get(jobId)?.merge) {
+        this.updateJobStatus(jobId, 'loading', 50);
+        loadJobId = await this.mergeIntoTable(jobId, bigQueryConfig, fullGcsPath, schema, [], { uri: fullGcsPath });
       } else {
-        this.log('INFO', jobId, 'Skipping table creation - will use BigQuery auto-detect schema');
-      }
-
-      this.updateJobStatus(jobId, 'loading', 50);
+        const { schema: loadSchema, loadOptions } = await this.prepareTargetTable(jobId, bigQueryConfig, schema);
 
-      this.log('INFO', jobId, 'Loading data from GCS to BigQuery...');
-      const config = configService.getConfig();
-      const bigQueryConfig = {
-        projectId: config.gcpProjectId || 'gcve-demo-408018',
-        datasetId,
-        tableId
-      };
+        this.updateJobStatus(jobId, 'loading', 50);
 
-      const loadJobId = await bigqueryService.loadDataFromGCS(
-        bigQueryConfig,
-        fullGcsPath,
-        schema && schema.length > 0 ? schema : undefined
-      );
-      this.log('INFO', jobId, `BigQuery load job started: ${loadJobId}`);
+        this.throwIfCancelled(jobId);
+        this.log('INFO', jobId, 'Loading data from GCS to BigQuery...');
+        loadJobId = await bigqueryService.loadDataFromGCS(bigQueryConfig, fullGcsPath, loadSchema, loadOptions);
+        this.log('INFO', jobId, `BigQuery load job started: ${loadJobId}`);
 
-      this.updateJobStatus(jobId, 'loading', 80);
-      await this.monitorBigQueryJob(jobId, loadJobId);
+        this.updateJobStatus(jobId, 'loading', 80);
+        const outputRows = (await this.monitorBigQueryJob(jobId, loadJobId, bigQueryConfig, { uri: fullGcsPath })).statistics?.load?.outputRows;
+        featureCount = outputRows !== undefined ? Number(outputRows) : undefined;
+      }
+      await this.applyTableMetadata(jobId, bigQueryConfig, { source: fullGcsPath, featureCount });
 
       const job = this.jobs.get(jobId);
       if (job) {
         job.bigQueryJobId = loadJobId;
         job.processedFileUrl = fullGcsPath;
+        job.loadMethod = 'batch';
       }
 
       this.updateJobStatus(jobId, 'completed', 100);
       this.log('INFO', jobId, 'GCS job completed successfully');
 
     } catch (error) {
-      this.log('ERROR', jobId, `GCS job failed: ${error.message}`);
-      this.updateJobStatus(jobId, 'failed', 0, error.message);
+      if (!this.abortControllers.get(jobId)?.signal.aborted) {
+        this.log('ERROR', jobId, `GCS job failed: ${error.message}`);
+        this.updateJobStatus(jobId, 'failed', 0, error.message);
+      }
       throw error;
     }
   }
 
-  private async monitorBigQueryJob(jobId: string, bigQueryJobId: string): Promise<void> {
+  private async monitorBigQueryJob(
+  jobId: string,
+  bigQueryJobId: string,
+  bigQueryConfig: BigQueryTarget,
+  errorSource?: LoadErrorSource)
+  : Promise<BigQueryJobStatus> {
     const maxAttempts = 30; // Increased attempts
     let attempts = 0;
 
+    // Cancelling the job also stops its BigQuery job, which may have started after the cancel. A
+    // BigQuery job that finishes anyway has written its rows, so it is handled as done.
+    const signal = this.abortControllers.get(jobId)?.signal;
+    const stopIfCancelled = async (): Promise<BigQueryJobStatus | undefined> => {
+      if (!signal?.aborted) {
+        return undefined;
+      }
+      const finalStatus = await this.cancelBigQueryJob(jobId, bigQueryJobId, bigQueryConfig);
+      if (finalStatus?.status !== 'DONE' || finalStatus.errorResult) {
+        throw new Error('Job was cancelled');
+      }
+      this.log('WARN', jobId, `BigQuery job ${bigQueryJobId} had already finished; the cancel came too late to stop it`);
+      return finalStatus;
+    };
+
     while (attempts < maxAttempts) {
       attempts++;
 
-      try {
-        const jobStatus = await bigqueryService.getJobStatus(bigQueryJobId);
+      let jobStatus = await stopIfCancelled();
+      if (!jobStatus) {
+        try {
+          jobStatus = await bigqueryService.getJobStatus(bigQueryConfig.billingProjectId, bigQueryJobId, bigQueryConfig.location, signal);
+        } catch (error) {
+          jobStatus = await stopIfCancelled();
+          if (!jobStatus) {
+            this.log('WARN', jobId, `Failed to check job status (attempt ${attempts}): ${error.message}`);
+
+            if (attempts >= maxAttempts) {
+              throw error;
+            }
+
+            await wait(3000, signal);
+            continue;
+          }
+        }
+      }
+
+      if (jobStatus.status === 'DONE') {
+        // errors[] also lists the rows skipped under maxBadRecords; only errorResult means the load failed
+        const rowErrors = jobStatus.errors?.length && errorSource ? await this.recordLoadErrors(jobId, jobStatus.errors, errorSource) : [];
+        if (jobStatus.errorResult) {
+          throw new Error(`BigQuery job failed: ${jobStatus.errorResult.message}`);
+        }
+        if (rowErrors.length > 0) {
+          this.log('WARN', jobId, `BigQuery skipped ${rowErrors.length} bad records, see Load Errors`);
+        }
+        this.log('INFO', jobId, 'BigQuery job completed successfully');
+        return jobStatus;
+      }
+
+      this.log('INFO', jobId, `BigQuery job status: ${jobStatus.status} (attempt ${attempts})`);
+
+      await wait(5000, signal); // Increased delay
+    }
+
+    throw new Error('BigQuery job monitoring timeout');
+  }
+
+  // Asks BigQuery to cancel the job and waits for it to end, which it does either cancelled, with an
+  // errorResult, or done because it finished first. Returns undefined when the outcome can't be read.
+  private async cancelBigQueryJob(
+  jobId: string,
+  bigQueryJobId: string,
+  bigQueryConfig: BigQueryTarget)
+  : Promise<BigQueryJobStatus | undefined> {
+    try {
+      await bigqueryService.cancelJob(bigQueryConfig.billingProjectId, bigQueryJobId, bigQueryConfig.location);
+      this.log('WARN', jobId, `Requested cancellation of BigQuery job ${bigQueryJobId}`);
+    } catch (error) {
+      this.log('WARN', jobId, `Could not cancel BigQuery job ${bigQueryJobId}: ${error.message}`);
+    }
 
+    for (let attempt = 1; attempt <= CANCEL_POLL_ATTEMPTS; attempt++) {
+      try {
+        const jobStatus = await bigqueryService.getJobStatus(bigQueryConfig.billingProjectId, bigQueryJobId, bigQueryConfig.location);
         if (jobStatus.status === 'DONE') {
-          if (jobStatus.errors && jobStatus.errors.length > 0) {
-            const errorMessage = jobStatus.errors.map((e) => e.message).join(', ');
-            throw new Error(`BigQuery job failed: ${errorMessage}`);
-          }
-          this.log('INFO', jobId, 'BigQuery job completed successfully');
-          return;
+          return jobStatus;
         }
+      } catch (error) {
+        this.log('WARN', jobId, `Could not check BigQuery job ${bigQueryJobId} after cancelling: ${error.message}`);
+        return undefined;
+      }
+      await wait(2000);
+    }
+    return undefined;
+  }
+
+  // Called right before each call that creates, changes or loads into a table, so a job cancelled
+  // between steps doesn't go on to change anything
+  private throwIfCancelled(jobId: string) {
+    if (this.abortControllers.get(jobId)?.signal.aborted) {
+      throw new Error('Job was cancelled');
+    }
+  }
 
-        this.log('INFO', jobId, `BigQuery job status: ${jobStatus.status} (attempt ${attempts})`);
+  private recordStagedObject(jobId: string, gcsUri?: string) {
+    if (gcsUri) {
+      this.stagedObjects.set(jobId, [...(this.stagedObjects.get(jobId) || []), gcsUri]);
+    }
+  }
 
-        await new Promise((resolve) => setTimeout(resolve, 5000)); // Increased delay
+  // Runs a job's steps in the background. A failure marks the job failed, unless it was cancelled.
+  private startRun(jobId: string, failureMessage: string, steps: (signal: AbortSignal) => Promise<void>) {
+    const abortController = new AbortController();
+    this.abortControllers.set(jobId, abortController);
+
+    this.runs.set(jobId, steps(abortController.signal).catch((error) => {
+      if (!abortController.signal.aborted) {
+        this.log('ERROR', jobId, `${failureMessage}: ${error.message}`);
+        this.updateJobStatus(jobId, 'failed', 0, error.message);
+      }
+    }).finally(() => this.finishRun(jobId, abortController)));
+  }
+
+  // Runs once a job's steps have stopped. The files a cancelled or deleted job staged are deleted
+  // only then, so an upload still in flight can't recreate them. A job that finished before the
+  // cancel reached it keeps its status and its files.
+  private async finishRun(jobId: string, abortController: AbortController): Promise<void> {
+    this.abortControllers.delete(jobId);
+    this.runs.delete(jobId);
+    const stagedObjects = this.stagedObjects.get(jobId) || [];
+    this.stagedObjects.delete(jobId);
+    if (!abortController.signal.aborted) {
+      return;
+    }
 
+    const job = this.jobs.get(jobId);
+    if (job?.status === 'completed' || job?.status === 'validated') {
+      this.log('WARN', jobId, `The cancel came too late: the job had already ${job.status === 'completed' ? 'loaded its data' : 'finished its checks'}`);
+      return;
+    }
+
+    for (const gcsUri of stagedObjects) {
+      try {
+        await gcsService.deleteObject(gcsUri);
+        this.log('INFO', jobId, `Deleted staged file ${gcsUri}`);
       } catch (error) {
-        this.log('WARN', jobId, `Failed to check job status (attempt ${attempts}): ${error.message}`);
+        this.log('WARN', jobId, `Could not delete staged file ${gcsUri}: ${error.message}`);
+      }
+    }
+    this.updateJobStatus(jobId, 'cancelled', job?.progress || 0);
+    this.log('WARN', jobId, 'Job cancelled');
+  }
 
-        if (attempts >= maxAttempts) {
-          throw error;
-        }
+  // Stores the load job's errors on the job, with the rejected row's feature index and attributes
+  // when the error names its position in the loaded file
+  private async recordLoadErrors(
+  jobId: string,
+  errors: NonNullable<BigQueryJobStatus['errors']>,
+  source?: LoadErrorSource)
+  : Promise<LoadRowError[]> {
+    const rowErrors = errors.filter((error) => !isSummaryError(error)).map(parseLoadError);
+
+    for (const [index, error] of rowErrors.entries()) {
+      error.layerName = source?.layerName;
+      if (error.position === undefined || !source) {
+        continue;
+      }
 
-        await new Promise((resolve) => setTimeout(resolve, 3000));
+      let start = error.position;
+      let nextRow: number | undefined;
+      if (source.rowOffsets && source.rowOffsets.length > 0) {
+        error.rowIndex = rowIndexAt(source.rowOffsets, error.position);
+        error.featureIndex = sourceFeatureIndex(error.rowIndex, source.droppedFeatureIndexes);
+        start = source.rowOffsets[error.rowIndex];
+        nextRow = source.rowOffsets[error.rowIndex + 1];
+      }
+
+      if (index < MAX_TRACED_ROWS) {
+        try {
+          const end = Math.min(start + MAX_TRACED_ROW_BYTES, nextRow ?? Infinity) - 1;
+          const row = await gcsService.readRange(source.uri, start, end);
+          error.attributes = JSON.parse(row.split('\n')[0]);
+        } catch (readError) {
+          console.warn('⚠️ Could not read rejected row:', readError);
+        }
       }
     }
 
-    throw new Error('BigQuery job monitoring timeout');
+    const job = this.jobs.get(jobId);
+    if (job) {
+      job.loadErrors = [...(job.loadErrors || []), ...rowErrors];
+    }
+    this.logRowErrors(jobId, rowErrors);
+    return rowErrors;
+  }
+
+  private logRowErrors(jobId: string, rowErrors: LoadRowError[]) {
+    rowErrors.slice(0, MAX_LOGGED_ROW_ERRORS).forEach((error) =>
+    this.log('ERROR', jobId, `${error.layerName ? `Layer ${error.layerName}: ` : ''}${error.featureIndex !== undefined ? `feature ${error.featureIndex}: ` : ''}${error.message}`)
+    );
   }
 
   private convertToJob(processingJob: ProcessingJob): Job {
@@ -437,13 +1612,28 @@ class ProductionJobService {
       status: processingJob.status,
       progress: processingJob.progress,
       startTime: processingJob.createdAt,
-      endTime: processingJob.status === 'completed' || processingJob.status === 'failed' ? processingJob.lastUpdated : undefined,
+      endTime: ['completed', 'validated', 'failed', 'cancelled'].includes(processingJob.status) ? processingJob.lastUpdated : undefined,
       errorMessage: processingJob.error,
       sourceType: processingJob.sourceType,
       gcpProjectId: processingJob.gcpProjectId,
+      dataProjectId: processingJob.dataProjectId,
       targetTable: `${processingJob.datasetId}.${processingJob.tableId}`,
       logs: processingJob.logs,
       bigQueryJobId: processingJob.bigQueryJobId,
+      sourceCrs: processingJob.sourceCrs,
+      layers: processingJob.layers?.map((step) => ({ ...step })),
+      columnMapping: processingJob.columnMapping,
+      schemaInference: processingJob.schemaInference,
+      writeDisposition: processingJob.writeDisposition,
+      partitioning: processingJob.partitioning,
+      clusteringFields: processingJob.clusteringFields,
+      loadErrors: processingJob.loadErrors,
+      loadMethod: processingJob.loadMethod,
+      merge: processingJob.merge,
+      mergeResult: processingJob.mergeResult,
+      location: processingJob.location,
+      datasetLocations: processingJob.datasetLocations && { ...processingJob.datasetLocations },
+      validationReport: processingJob.validationReport,
     };
   }
 
@@ -458,6 +1648,11 @@ class ProductionJobService {
     return processingJob ? this.convertToJob(processingJob) : null;
   }
 
+  // Looks up any BigQuery job, including ones this session didn't start, in the project it ran in
+  async checkBigQueryJobStatus(projectId: string, bigQueryJobId: string, location?: string): Promise<BigQueryJobStatus> {
+    return bigqueryService.getJobStatus(projectId, bigQueryJobId, location);
+  }
+
   subscribeToJobUpdates(jobId: string, callback: (job: Job) => void): () => void {
     const updateCallback = () => {
       const processingJob = this.jobs.get(jobId);
@@ -483,7 +1678,29 @@ class ProductionJobService {
     );
   }
 
+  // Stops a running job: aborts its uploads, file parsing and requests, cancels its BigQuery job and
+  // deletes the files it staged in Cloud Storage. Rows already written stay in the table. Resolves
+  // once the job has stopped, as 'cancelled' or, when the cancel came too late, 'completed'.
+  async cancelJob(jobId: string): Promise<void> {
+    if (!this.jobs.has(jobId)) {
+      throw new Error('Job not found');
+    }
+
+    const abortController = this.abortControllers.get(jobId);
+    const run = this.runs.get(jobId);
+    if (!abortController || !run) {
+      throw new Error('Job is not running');
+    }
+
+    this.log('WARN', jobId, 'Cancelling job...');
+    abortController.abort();
+    await run;
+  }
+
   async deleteJob(jobId: string): Promise<void> {
+    // Stops the job like a cancel; its run cleans up once it has stopped
+    this.abortControllers.get(jobId)?.abort();
+
     if (this.jobs.delete(jobId)) {
       this.log('INFO', jobId, 'Job deleted');
       this.notifyJobUpdate();
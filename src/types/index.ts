@@ -8,20 +8,35 @@ export interface User {
 export interface Job {
   id: string;
   userId: string;
-  status: 'queued' | 'converting' | 'reading' | 'loading' | 'completed' | 'failed';
+  status: 'queued' | 'converting' | 'reading' | 'loading' | 'completed' | 'validated' | 'failed' | 'cancelled';
   progress: number;
   sourceType: 'local' | 'gcs';
   fileName?: string;
   gcsPath?: string;
-  gcpProjectId: string;
-  targetTable: string;
+  gcpProjectId: string; // Project the BigQuery jobs run in and are billed to
+  dataProjectId?: string; // Project holding the target tables
+  targetTable: string; // dataset.table in the data project
   schema?: any;
-  integerColumns?: string;
+  integerColumns?: string[];
   startTime: Date;
   endTime?: Date;
   errorMessage?: string;
   logs: JobLog[];
   bigQueryJobId?: string; // Store BigQuery job ID for manual status checking
+  sourceCrs?: string;
+  layers?: LayerLoadStep[];
+  columnMapping?: ColumnMapping[]; // Only columns whose name changed
+  schemaInference?: ColumnInferenceSummary[];
+  writeDisposition?: WriteDisposition;
+  partitioning?: TablePartitioning;
+  clusteringFields?: string[];
+  loadErrors?: LoadRowError[];
+  loadMethod?: LoadMethod; // The method used, once chosen
+  location?: string; // BigQuery location requested for new datasets
+  datasetLocations?: Record<string, string>; // Where each target dataset is, by project.dataset; its jobs ran there
+  merge?: MergeOptions;
+  mergeResult?: MergeResult;
+  validationReport?: ValidationReport; // Set by dry runs, which end in 'validated'
 }
 
 export interface JobLog {
@@ -32,9 +47,10 @@ export interface JobLog {
 
 export interface SchemaField {
   name: string;
-  type: 'STRING' | 'INTEGER' | 'FLOAT' | 'BOOLEAN' | 'TIMESTAMP' | 'GEOGRAPHY' | 'JSON';
+  type: 'STRING' | 'INTEGER' | 'FLOAT' | 'NUMERIC' | 'BIGNUMERIC' | 'BOOLEAN' | 'DATE' | 'DATETIME' | 'TIME' | 'TIMESTAMP' | 'BYTES' | 'GEOGRAPHY' | 'JSON' | 'RECORD';
   mode: 'REQUIRED' | 'NULLABLE' | 'REPEATED';
   description?: string;
+  fields?: SchemaField[]; // Child fields of a RECORD
 }
 
 export interface ProcessingConfig {
@@ -42,11 +58,225 @@ export interface ProcessingConfig {
   file?: File;
   gcsPath?: string;
   gcsBucket?: string;
-  gcpProjectId: string;
-  targetTable: string;
+  gcpProjectId: string; // Billing project; the data project defaults to it
+  targetTable: string; // dataset.table, or project.dataset.table to load into another project
   autoDetectSchema: boolean;
   customSchema?: SchemaField[];
-  integerColumns?: string;
+  integerColumns?: string[]; // Shorthand for INTEGER type overrides
+  typeOverrides?: ColumnTypeOverride[];
+  columnNameStyle?: ColumnNameStyle;
+  sourceCrs?: string; // EPSG code or PROJ/WKT definition used when a shapefile has no .prj
+  layerTargets?: LayerTarget[]; // Per-layer tables for multi-layer ZIP archives
+  geometryPolicy?: GeometryPolicy;
+  schemaSampleSize?: number; // Records used for schema inference, all when unset
+  schemaChangeAction?: SchemaChangeAction;
+  writeDisposition?: WriteDisposition;
+  partitioning?: TablePartitioning;
+  clusteringFields?: string[]; // Up to four top-level columns, in clustering order
+  tableMetadata?: TableMetadata;
+  maxBadRecords?: number; // Rows BigQuery may skip before the load fails
+  ignoreUnknownValues?: boolean; // Drop values for columns the table doesn't have
+  loadMethod?: LoadMethod; // Auto streams small local files
+  merge?: MergeOptions; // Replaces the write disposition when set
+  location?: string; // BigQuery location for new datasets; existing datasets keep theirs
+  dryRun?: boolean; // Check the load end to end without writing to Cloud Storage or BigQuery
+}
+
+export interface FileProcessingOptions {
+  sourceCrs?: string;
+  layerName?: string; // Shapefile layer to read from a multi-layer ZIP
+  geometryPolicy?: GeometryPolicy;
+  columnTypes?: ColumnTypeOverride[]; // Merged integerColumns and typeOverrides
+  columnNameStyle?: ColumnNameStyle;
+  schemaSampleSize?: number;
+}
+
+export type ColumnNameStyle = 'snake_case' | 'preserve';
+
+// Source property name and the BigQuery column it was loaded into
+export interface ColumnMapping {
+  original: string;
+  final: string;
+}
+
+export type ColumnOverrideType = 'INTEGER' | 'FLOAT' | 'NUMERIC' | 'BOOLEAN' | 'DATE' | 'TIMESTAMP';
+
+export interface ColumnTypeOverride {
+  column: string;
+  type: ColumnOverrideType;
+}
+
+export interface ColumnCoercionReport {
+  column: string;
+  type: ColumnOverrideType;
+  converted: number;
+  failed: number; // Failed values are loaded as null
+  missing: boolean; // Column does not exist in the file
+  failures: Array<{recordIndex: number;value: string;}>;
+}
+
+// How a column's type was chosen and how well the values fit it, shown before the load
+export interface ColumnInferenceSummary {
+  column: string;
+  type: SchemaField['type'];
+  source: 'inferred' | 'declared' | 'override'; // Declared types come from the source format, e.g. DBF headers
+  nonNullValues: number;
+  nullValues: number;
+  typeCounts: Partial<Record<SchemaField['type'], number>>; // Observed value types
+  confidence: number; // 0..1 share of non-null values that fit the type without conversion
+  conflict: boolean; // Incompatible value types were widened to STRING
+  sampled: boolean;
+}
+
+// What to do when the target table exists with a different schema
+export type SchemaChangeAction = 'abort' | 'update' | 'replace';
+
+// How a load treats rows already in the target table
+export type WriteDisposition = 'WRITE_APPEND' | 'WRITE_TRUNCATE' | 'WRITE_EMPTY';
+
+// Merges the loaded rows into the target on key columns instead of appending or truncating
+export interface MergeOptions {
+  keyColumns: string[]; // Source column names, like custom schemas
+  mode: 'upsert' | 'update' | 'insert'; // update skips new keys, insert leaves existing rows as they are
+  deleteMissing?: boolean; // Delete target rows whose key isn't in the file
+}
+
+// A BigQuery table, in a project that can differ from the one its jobs run in
+export interface TableReference {
+  projectId: string;
+  datasetId: string;
+  tableId: string;
+}
+
+export interface MergeResult {
+  insertedRows: number;
+  updatedRows: number;
+  deletedRows: number;
+}
+
+// Batch loads stage the processed file in Cloud Storage; streaming inserts the rows directly
+export type LoadMethod = 'auto' | 'batch' | 'streaming';
+
+export interface TablePartitioning {
+  kind: 'time' | 'ingestion' | 'range';
+  field?: string; // DATE, TIMESTAMP or DATETIME column for time, INTEGER column for range
+  granularity?: 'HOUR' | 'DAY' | 'MONTH' | 'YEAR'; // Time and ingestion-time partitioning
+  range?: {start: number;end: number;interval: number;};
+}
+
+// Partitioning and clustering applied when a target table is created
+export interface TableLayout {
+  partitioning?: TablePartitioning;
+  clusteringFields?: string[];
+}
+
+// A row BigQuery rejected, traced back to the source feature when the processed file is ours
+export interface LoadRowError {
+  reason: string;
+  message: string;
+  location?: string;
+  layerName?: string;
+  position?: number; // Byte offset of the row in the loaded file
+  rowIndex?: number; // 0-based row in the processed NDJSON
+  featureIndex?: number; // 0-based feature in the source file
+  field?: string;
+  attributes?: Record<string, unknown>;
+}
+
+// One step of a dry run; warnings don't fail the run
+export interface ValidationCheck {
+  name: string;
+  status: 'passed' | 'failed' | 'warning' | 'skipped';
+  message: string;
+}
+
+export interface ValidationReport {
+  passed: boolean;
+  checks: ValidationCheck[];
+}
+
+// Descriptive settings applied to the target tables after each load
+export interface TableMetadata {
+  description?: string; // Provenance of the latest load is appended automatically
+  friendlyName?: string;
+  labels?: Record<string, string>;
+  expirationDays?: number; // Days after the load until BigQuery deletes the table
+}
+
+// Settings for how a job writes to its target tables, stored on the job
+export interface TableLoadOptions extends TableLayout {
+  tableMetadata?: TableMetadata;
+  maxBadRecords?: number;
+  ignoreUnknownValues?: boolean;
+  schemaChangeAction?: SchemaChangeAction;
+  writeDisposition?: WriteDisposition;
+  loadMethod?: LoadMethod;
+  merge?: MergeOptions;
+  location?: string;
+}
+
+export interface SchemaChange {
+  path: string; // Dotted for fields inside RECORDs
+  kind: 'added' | 'missing' | 'type_changed' | 'mode_relaxed' | 'mode_changed';
+  from?: string;
+  to?: string;
+  compatible: boolean; // Can be applied by an append with ALLOW_FIELD_ADDITION / ALLOW_FIELD_RELAXATION
+}
+
+export interface SchemaDiff {
+  changes: SchemaChange[];
+  compatible: boolean;
+  updatedSchema: SchemaField[]; // Existing schema with compatible changes applied
+}
+
+// What the load would contain, computed before anything is uploaded
+export interface FilePreview {
+  recordCount: number;
+  schema: SchemaField[];
+  schemaInference: ColumnInferenceSummary[];
+  geometryTypes: Record<string, number>; // Feature count per geometry type
+  bbox?: [number, number, number, number]; // minLon, minLat, maxLon, maxLat in EPSG:4326
+  features: GeoJSONFeature[]; // First records with geometry, for the map
+  records: Record<string, unknown>[]; // First records as they will be loaded
+  columnMapping: ColumnMapping[];
+  sourceCrs?: string;
+  layerName?: string;
+  geometryValidation?: GeometryValidationReport;
+}
+
+// What to do with a feature whose geometry fails validation
+export type GeometryPolicy = 'repair' | 'drop' | 'fail';
+
+export interface GeometryIssue {
+  featureIndex: number; // Position of the feature in the source file
+  problems: string[];
+}
+
+export interface GeometryValidationReport {
+  policy: GeometryPolicy;
+  checked: number;
+  invalid: number;
+  repaired: number;
+  dropped: number;
+  repairedFeatureIndexes: number[];
+  droppedFeatureIndexes: number[];
+  issues: GeometryIssue[]; // Capped, see MAX_REPORTED_ISSUES
+}
+
+export interface LayerTarget {
+  layerName: string;
+  targetTable: string; // dataset.table or project.dataset.table
+  selected: boolean; // Unselected layers are skipped
+}
+
+// One child load of a multi-layer job
+export interface LayerLoadStep {
+  layerName: string;
+  targetTable: string;
+  status: 'pending' | 'processing' | 'loading' | 'completed' | 'failed' | 'cancelled';
+  recordCount?: number;
+  bigQueryJobId?: string;
+  error?: string;
 }
 
 export interface ProcessingJob {
@@ -57,7 +287,7 @@ export interface ProcessingJob {
   schema: any;
   datasetId: string;
   tableId: string;
-  status: 'pending' | 'uploading' | 'processing' | 'loading' | 'completed' | 'failed';
+  status: 'pending' | 'uploading' | 'processing' | 'loading' | 'completed' | 'validated' | 'failed' | 'cancelled';
   progress: number;
   createdAt: Date;
   lastUpdated: Date;
@@ -67,16 +297,52 @@ export interface ProcessingJob {
   processedFileUrl?: string;
   logs: JobLog[];
   sourceType: 'local' | 'gcs';
-  gcpProjectId: string;
+  gcpProjectId: string; // Billing project
+  dataProjectId: string; // Project of datasetId
+  sourceCrs?: string;
+  layers?: LayerLoadStep[];
+  columnMapping?: ColumnMapping[];
+  schemaInference?: ColumnInferenceSummary[];
+  schemaChangeAction?: SchemaChangeAction;
+  writeDisposition?: WriteDisposition;
+  partitioning?: TablePartitioning;
+  clusteringFields?: string[];
+  tableMetadata?: TableMetadata;
+  maxBadRecords?: number;
+  ignoreUnknownValues?: boolean;
+  loadErrors?: LoadRowError[];
+  loadMethod?: LoadMethod; // The method chosen for the file
+  requestedLoadMethod?: LoadMethod; // As configured; only an explicit 'streaming' insists on streaming
+  merge?: MergeOptions;
+  mergeResult?: MergeResult;
+  location?: string;
+  datasetLocations?: Record<string, string>;
+  validationReport?: ValidationReport;
 }
 
 export interface BigQueryJobStatus {
   status: 'PENDING' | 'RUNNING' | 'DONE';
-  errors?: Array<{ message: string; reason: string }>;
+  errorResult?: { message: string; reason: string; location?: string };
+  errors?: Array<{ message: string; reason: string; location?: string }>;
   statistics?: {
     load?: {
       outputRows: string;
       outputBytes: string;
     };
+    query?: {
+      dmlStats?: {insertedRowCount?: string;updatedRowCount?: string;deletedRowCount?: string;};
+    };
   };
-}
\ No newline at end of file
+}
+export interface GeoJSONGeometry {
+  type: 'Point' | 'MultiPoint' | 'LineString' | 'MultiLineString' | 'Polygon' | 'MultiPolygon' | 'GeometryCollection';
+  coordinates?: unknown;
+  geometries?: GeoJSONGeometry[];
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  id?: string | number;
+  geometry: GeoJSONGeometry | null;
+  properties: Record<string, unknown>;
+}
@@ -0,0 +1,57 @@
+import { convertFileToNdjson, FileWorkerMessage, FileWorkerRequest, previewFileRecords } from '@/lib/fileParsing';
+
+// Parses uploads off the main thread and streams NDJSON back in Blob parts, or returns a preview
+
+const ctx = self as unknown as Worker;
+
+// Share of the progress bar spent reading the file, the rest covers parsing and serialization
+const READ_SHARE = 0.4;
+
+const post = (message: FileWorkerMessage) => ctx.postMessage(message);
+
+const readWithProgress = async (file: File, onProgress: (fraction: number) => void): Promise<ArrayBuffer> => {
+  const bytes = new Uint8Array(file.size);
+  const reader = file.stream().getReader();
+  let offset = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    bytes.set(value, offset);
+    offset += value.length;
+    onProgress(file.size > 0 ? offset / file.size : 1);
+  }
+
+  return bytes.buffer;
+};
+
+ctx.onmessage = async (event: MessageEvent<FileWorkerRequest>) => {
+  const { file, options, mode } = event.data;
+
+  // Only whole-percent changes are posted to keep the message channel quiet
+  let lastProgress = -1;
+  const reportProgress = (progress: number) => {
+    const rounded = Math.floor(progress * 100);
+    if (rounded > lastProgress) {
+      lastProgress = rounded;
+      post({ type: 'progress', progress });
+    }
+  };
+
+  try {
+    const content = await readWithProgress(file, (fraction) => reportProgress(fraction * READ_SHARE));
+    if (mode === 'preview') {
+      post({ type: 'preview', preview: await previewFileRecords(file.name, content, options) });
+      return;
+    }
+    const result = await convertFileToNdjson(file.name, content, options, {
+      onBatch: (ndjson) => post({ type: 'batch', part: new Blob([ndjson], { type: 'application/json' }) }),
+      onProgress: (fraction) => reportProgress(READ_SHARE + fraction * (1 - READ_SHARE))
+    });
+    post({ type: 'done', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
@@ -6,6 +6,11 @@ import { nodePolyfills } from "vite-plugin-node-polyfills";
 // https://vitejs.dev/config/
 export default defineConfig({
   plugins: [react(), nodePolyfills()],
+  worker: {
+    format: "es",
+    // shpjs needs the same Node polyfills inside the parsing worker
+    plugins: () => [nodePolyfills()]
+  },
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src")